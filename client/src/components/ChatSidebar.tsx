@@ -1,18 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { AvatarWithStatus } from '@/components/ui/avatar-with-status';
 import { Input } from '@/components/ui/input';
+import MessageSearchResults from '@/components/MessageSearchResults';
 import { ChatItem, Status } from '@/types';
 import { useAuth } from '@/lib/useAuth';
+import { formatTyping } from '@/hooks/use-typing';
 import { format } from 'date-fns';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 
 interface ChatSidebarProps {
   onChatSelect: (chatId: string) => void;
+  // Open a chat scrolled to a message found by search
+  onMessageSelect: (chatId: string, messageId: number) => void;
+  // Names the chats of message search results
+  chatItems: ChatItem[];
   onProfileClick: () => void;
   onStatusClick: () => void;
   onNewChatClick: () => void;
   onNewGroupClick: () => void;
+  onStarredClick: () => void;
   onSettingsClick: () => void;
   onLogout: () => void;
   selectedChatId?: string;
@@ -20,10 +27,13 @@ interface ChatSidebarProps {
 
 const ChatSidebar: React.FC<ChatSidebarProps> = ({
   onChatSelect,
+  onMessageSelect,
+  chatItems,
   onProfileClick,
   onStatusClick,
   onNewChatClick,
   onNewGroupClick,
+  onStarredClick,
   onSettingsClick,
   onLogout,
   selectedChatId,
@@ -140,6 +150,17 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
                     New Group
                   </button>
                 </li>
+                <li>
+                  <button 
+                    onClick={() => {
+                      onStarredClick();
+                      setShowMenu(false);
+                    }}
+                    className="block px-4 py-2 text-sm text-netgray-600 hover:bg-netgray-100 w-full text-left"
+                  >
+                    Starred messages
+                  </button>
+                </li>
                 <li>
                   <button 
                     onClick={() => {
@@ -283,12 +304,19 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <p className="text-sm text-netgray-500 truncate">
-                    {chat.type === 'group' && chat.lastMessage && (
-                      <span className="font-medium">{chat.typingUsers?.[0]}: </span>
-                    )}
-                    {chat.lastMessage || 'Start a conversation'}
-                  </p>
+                  {chat.typingUsers?.length ? (
+                    <p className="text-sm text-[#25d366] italic truncate">
+                      {formatTyping(chat.typingUsers)}
+                    </p>
+                  ) : chat.draft ? (
+                    <p className="text-sm text-netgray-500 truncate">
+                      <span className="text-[#25d366]">Draft:</span> {chat.draft}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-netgray-500 truncate">
+                      {chat.lastMessage || 'Start a conversation'}
+                    </p>
+                  )}
                   {chat.unreadCount > 0 && (
                     <div className="bg-primary rounded-full h-5 w-5 flex items-center justify-center">
                       <span className="text-xs text-white">{chat.unreadCount}</span>
@@ -299,6 +327,18 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
             </div>
           ))
         )}
+        
+        {/* Messages matching the search */}
+        {searchQuery.trim() && (
+          <div className="border-t border-netgray-200">
+            <h3 className="px-4 pt-3 pb-1 text-sm font-medium text-primary">Messages</h3>
+            <MessageSearchResults
+              query={searchQuery}
+              chats={chatItems}
+              onSelect={(result) => onMessageSelect(result.chatId, result.id)}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,85 +1,689 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { AvatarWithStatus } from '@/components/ui/avatar-with-status';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ChatMessage } from '@/components/ui/chat-message';
-import { Message, ChatItem } from '@/types';
+import MessageHistoryDialog from '@/components/MessageHistoryDialog';
+import DeleteMessageDialog, { DeleteScope } from '@/components/DeleteMessageDialog';
+import ForwardMessagesDialog from '@/components/ForwardMessagesDialog';
+import MessageSearchResults from '@/components/MessageSearchResults';
+import DisappearingMessagesDialog, { timerLabel } from '@/components/DisappearingMessagesDialog';
+import ScheduleMessageDialog from '@/components/ScheduleMessageDialog';
+import { Message, MessagePage, ChatItem, ChatRead, ChatDelivery, ChatGroup, ChatSettings, ReactionSummary, StarredMessage, PinnedMessage, ScheduledMessage, User } from '@/types';
 import { useAuth } from '@/lib/useAuth';
-import { useWebSocket } from '@/hooks/use-websocket';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { sendChatMessage } from '@/lib/socket';
+import { useWebSocketEvent } from '@/hooks/use-websocket';
+import { useTypingNotifier, formatTyping } from '@/hooks/use-typing';
+import { useDraft } from '@/hooks/use-drafts';
+import { formatLastSeen } from '@/hooks/use-presence';
+import { useToast } from '@/hooks/use-toast';
+import { useInfiniteQuery, useQuery, useQueries, useMutation, useQueryClient, InfiniteData } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { cn, summarize } from '@/lib/utils';
 import { format } from 'date-fns';
+import { AtSign, Clock, Pin, Timer, X } from 'lucide-react';
+
+// Messages fetched per history page
+const PAGE_SIZE = 50;
+
+// Where a history page starts: the newest messages (null), older or newer than a cursor, or centred on a message
+type PageParam = { before: string } | { after: string } | { around: number } | null;
+
+// Offered by the mention autocomplete to group admins; the server refuses it from anyone else
+const MENTION_ALL = 'all';
+
+// The "@name" being typed just before the caret, if any
+const mentionQueryAt = (text: string, caret: number) => {
+  const match = /(?:^|\s)@([^@\s]*)$/.exec(text.slice(0, caret));
+  return match ? { query: match[1], start: caret - match[1].length - 1 } : null;
+};
+
+// Whether a watermark has reached a message (timeline order: timestamp, then id)
+const watermarkCovers = (timestamp: Date, id: number, message: Message) => {
+  const watermarkTime = new Date(timestamp).getTime();
+  const messageTime = new Date(message.timestamp).getTime();
+  return watermarkTime > messageTime || (watermarkTime === messageTime && id >= message.id);
+};
+
+const readCovers = (read: ChatRead, message: Message) =>
+  watermarkCovers(read.lastReadTimestamp, read.lastReadMessageId, message);
+
+const deliveryCovers = (delivery: ChatDelivery, message: Message) =>
+  watermarkCovers(delivery.lastDeliveredTimestamp, delivery.lastDeliveredMessageId, message);
 
 interface ChatViewProps {
   chatId: string;
   onBackClick: () => void;
   chatData?: ChatItem;
+  // Scroll to this message once the chat has loaded, then report back
+  focusMessageId?: number | null;
+  onFocused?: () => void;
 }
 
-const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData }) => {
+const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData, focusMessageId, onFocused }) => {
   const { userProfile } = useAuth();
   const [messageText, setMessageText] = useState('');
+  // Message whose text the input currently edits, if any
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  // Message the next send quotes, if any
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Quoted message being loaded and scrolled to, then briefly highlighted
+  const [jumpTargetId, setJumpTargetId] = useState<number | null>(null);
+  // Loading the page around a jump target that wasn't loaded yet
+  const [isJumping, setIsJumping] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  const [historyMessageId, setHistoryMessageId] = useState<number | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<Message | null>(null);
+  // Messages picked for forwarding; null outside selection mode
+  const [selectedIds, setSelectedIds] = useState<number[] | null>(null);
+  const [isForwardOpen, setIsForwardOpen] = useState(false);
+  // Which pin the banner shows; clicking it jumps there and moves on to the next
+  const [pinIndex, setPinIndex] = useState(0);
+  // Search within this chat, opened from the header
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [isTimerOpen, setIsTimerOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  // Caret position in the composer, to find the mention being typed
+  const [caret, setCaret] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const { sendMessage } = useWebSocket();
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll height before an older page was prepended, to keep the view anchored
+  const prependScrollHeight = useRef<number | null>(null);
+  // A newer page is being appended, which should not scroll to the bottom
+  const appendingNewerPage = useRef(false);
+  const lastMessageId = useRef<number | null>(null);
   const queryClient = useQueryClient();
+  const { notifyTyping, stopTyping } = useTypingNotifier(chatId);
+  // Unsent text survives switching chats and follows the user to their other devices
+  useDraft(chatId, messageText, setMessageText, !!editingMessage);
+  const { toast } = useToast();
+  
+  const messagesKey = `/api/messages/${chatId}`;
+  
+  const fetchMessagePage = async (pageParam: PageParam): Promise<MessagePage> => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (pageParam) {
+      Object.entries(pageParam).forEach(([key, value]) => params.set(key, String(value)));
+    }
+    
+    const res = await apiRequest('GET', `${messagesKey}?${params}`);
+    return res.json();
+  };
   
-  // Fetch messages
-  const { data: messages = [], isLoading } = useQuery({
-    queryKey: [chatId ? `/api/messages/${chatId}` : null],
+  // Fetch messages, newest page first; older pages load on scroll. After a jump the first page
+  // is the one around the target, and newer pages load when scrolling down.
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    fetchPreviousPage,
+    hasNextPage,
+    hasPreviousPage,
+    isFetchingNextPage,
+    isFetchingPreviousPage
+  } = useInfiniteQuery({
+    queryKey: [messagesKey],
+    queryFn: ({ pageParam }) => fetchMessagePage(pageParam),
+    initialPageParam: null as PageParam,
+    getNextPageParam: (lastPage): PageParam | undefined =>
+      lastPage.hasMoreBefore ? { before: lastPage.cursors.before! } : undefined,
+    getPreviousPageParam: (firstPage): PageParam | undefined =>
+      firstPage.hasMoreAfter ? { after: firstPage.cursors.after! } : undefined,
     enabled: !!chatId,
   });
   
+  // Pages arrive newest first; display oldest first
+  const messages: Message[] = data
+    ? [...data.pages].reverse().flatMap(page => page.messages)
+    : [];
+  
+  // Read watermarks of everyone in the chat
+  const readsKey = `/api/chats/${chatId}/reads`;
+  const { data: reads = [] } = useQuery<ChatRead[]>({
+    queryKey: [readsKey],
+    enabled: !!chatId,
+  });
+  
+  // Delivery watermarks of everyone in the chat
+  const deliveriesKey = `/api/chats/${chatId}/deliveries`;
+  const { data: deliveries = [] } = useQuery<ChatDelivery[]>({
+    queryKey: [deliveriesKey],
+    enabled: !!chatId,
+  });
+  
+  // Pinned messages, shared by the whole chat and updated live
+  const pinsKey = `/api/chats/${chatId}/pins`;
+  const { data: pins = [] } = useQuery<PinnedMessage[]>({
+    queryKey: [pinsKey],
+    enabled: !!chatId,
+  });
+  
+  // Per-chat settings, including the disappearing-messages timer
+  const settingsKey = `/api/chats/${chatId}/settings`;
+  const { data: settings } = useQuery<ChatSettings>({
+    queryKey: [settingsKey],
+    enabled: !!chatId,
+  });
+  
+  const handleSettingsChanged = useCallback((event: { chatId: string; settings: ChatSettings }) => {
+    if (event.chatId === chatId) {
+      queryClient.setQueryData([settingsKey], event.settings);
+    }
+  }, [chatId, settingsKey, queryClient]);
+  useWebSocketEvent('chat_settings_changed', handleSettingsChanged);
+  
+  // Group size decides how many recipients a message waits for
+  const groupId = chatId.startsWith('group_') ? chatId.slice('group_'.length) : null;
+  const { data: group } = useQuery<ChatGroup>({
+    queryKey: [`/api/groups/${groupId}`],
+    enabled: !!groupId,
+  });
+  
+  // Group members' names, for mention autocomplete
+  const memberQueries = useQueries({
+    queries: (group?.members || []).map(member => ({
+      queryKey: [`/api/users/${member.userId}`],
+      staleTime: 1000 * 60,
+    })),
+  });
+  const members = memberQueries
+    .map(query => query.data as User | undefined)
+    .filter((user): user is User => !!user);
+  
+  // Mentions of the user that were unread when the chat opened; kept until jumped to
+  const mentionsKey = `/api/chats/${chatId}/mentions`;
+  const { data: unreadMentions = [] } = useQuery<Message[]>({
+    queryKey: [mentionsKey],
+    enabled: !!groupId,
+    staleTime: Infinity,
+    gcTime: 0,
+  });
+  
+  // A mention arriving while the chat is open may land out of view
+  const handleMentioned = useCallback((event: { chatId: string; message: Message }) => {
+    if (event.chatId !== chatId) return;
+    
+    queryClient.setQueryData<Message[]>([mentionsKey], (previous = []) =>
+      previous.some(message => message.id === event.message.id) ? previous : [...previous, event.message]
+    );
+  }, [chatId, mentionsKey, queryClient]);
+  useWebSocketEvent('mentioned', handleMentioned);
+  
+  const getReceipt = (message: Message) => {
+    const total = group?.members ? group.members.length - 1 : 1;
+    const readers = reads
+      .filter(read => read.userId !== message.senderId && readCovers(read, message))
+      .map(read => read.userId);
+    // Reading implies delivery, even if the delivery ack never arrived
+    const receivers = new Set([
+      ...readers,
+      ...deliveries
+        .filter(delivery => delivery.userId !== message.senderId && deliveryCovers(delivery, message))
+        .map(delivery => delivery.userId)
+    ]);
+    return { read: readers.length, delivered: receivers.size, total };
+  };
+  
+  // Someone in this chat received or read further
+  const handleMessagesRead = useCallback((event: { chatId: string }) => {
+    if (event.chatId === chatId) {
+      queryClient.invalidateQueries({ queryKey: [readsKey] });
+    }
+  }, [chatId, readsKey, queryClient]);
+  useWebSocketEvent('messages_read', handleMessagesRead);
+  
+  const handleMessagesDelivered = useCallback((event: { chatId: string }) => {
+    if (event.chatId === chatId) {
+      queryClient.invalidateQueries({ queryKey: [deliveriesKey] });
+    }
+  }, [chatId, deliveriesKey, queryClient]);
+  useWebSocketEvent('messages_delivered', handleMessagesDelivered);
+  
+  // Rewrite the loaded pages in place, e.g. after an edit or delete
+  const updateLoadedMessages = useCallback((update: (messages: Message[]) => Message[]) => {
+    queryClient.setQueryData<InfiniteData<MessagePage>>([`/api/messages/${chatId}`], (previous) => previous && {
+      ...previous,
+      pages: previous.pages.map(page => ({ ...page, messages: update(page.messages) }))
+    });
+  }, [chatId, queryClient]);
+  
+  const replaceMessage = useCallback((updated: Message) => {
+    // Quotes of the message follow its edits and deletion too
+    updateLoadedMessages(messages => messages.map(message => {
+      if (message.id === updated.id) return updated;
+      if (message.replyTo?.id !== updated.id) return message;
+      return { ...message, replyTo: { ...message.replyTo, content: updated.content, isDeleted: updated.isDeleted } };
+    }));
+    queryClient.invalidateQueries({ queryKey: [`/api/messages/${updated.id}/revisions`] });
+  }, [updateLoadedMessages, queryClient]);
+  
+  // Edited, or deleted for everyone (the event then carries the tombstone)
+  const handleMessageChanged = useCallback((event: { chatId: string; message: Message }) => {
+    if (event.chatId !== chatId) return;
+    
+    replaceMessage(event.message);
+    
+    // Deleting a message also unpins and unstars it
+    if (event.message.isDeleted) {
+      queryClient.invalidateQueries({ queryKey: [pinsKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/starred'] });
+    }
+  }, [chatId, pinsKey, replaceMessage, queryClient]);
+  useWebSocketEvent('message_edited', handleMessageChanged);
+  useWebSocketEvent('message_deleted', handleMessageChanged);
+  
+  const setReactions = useCallback((messageId: number, reactions: ReactionSummary[]) => {
+    updateLoadedMessages(messages => messages.map(message =>
+      message.id === messageId ? { ...message, reactions } : message
+    ));
+  }, [updateLoadedMessages]);
+  
+  // Someone added or took back a reaction; the event carries the new totals
+  const handleReactionChanged = useCallback((event: { chatId: string; messageId: number; reactions: ReactionSummary[] }) => {
+    if (event.chatId === chatId) {
+      setReactions(event.messageId, event.reactions);
+    }
+  }, [chatId, setReactions]);
+  useWebSocketEvent('reaction_changed', handleReactionChanged);
+  
+  // Messages past their disappearing deadline are gone for everyone
+  const handleMessagesExpired = useCallback((event: { chatId: string; messageIds: number[] }) => {
+    if (event.chatId !== chatId) return;
+    
+    const expired = new Set(event.messageIds);
+    updateLoadedMessages(messages => messages.filter(message => !expired.has(message.id)));
+    queryClient.invalidateQueries({ queryKey: [pinsKey] });
+    queryClient.invalidateQueries({ queryKey: ['/api/starred'] });
+  }, [chatId, pinsKey, updateLoadedMessages, queryClient]);
+  useWebSocketEvent('messages_expired', handleMessagesExpired);
+  
+  // Mark the newest message read once it is on screen
+  const newestMessage = messages.length > 0 ? messages[messages.length - 1] : null;
+  useEffect(() => {
+    if (!newestMessage || !userProfile || newestMessage.senderId === userProfile.id) return;
+    
+    const ownRead = reads.find(read => read.userId === userProfile.id);
+    if (ownRead && readCovers(ownRead, newestMessage)) return;
+    
+    apiRequest('POST', `/api/chats/${chatId}/read`, { messageId: newestMessage.id })
+      .then(() => queryClient.invalidateQueries({ queryKey: [readsKey] }))
+      .catch(error => console.error('Error marking chat as read:', error));
+  }, [newestMessage?.id, reads, userProfile?.id]);
+  
   // Send message mutation
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, replyToId }: { content: string; replyToId?: number }) => {
       if (!userProfile) throw new Error('User not logged in');
       
-      const message = {
-        senderId: userProfile.id,
-        chatId,
-        content,
-        contentType: 'text'
-      };
-      
-      return apiRequest('POST', '/api/messages', message);
+      // Acked by the server once stored; retries after a reconnect are deduplicated
+      return sendChatMessage(chatId, content, 'text', replyToId);
     },
     onSuccess: () => {
-      // Invalidate messages cache to refresh the chat
-      queryClient.invalidateQueries({ queryKey: [`/api/messages/${chatId}`] });
+      // Invalidate messages cache to refresh the chat; after a jump, go back to the newest messages
+      if (hasPreviousPage) {
+        queryClient.resetQueries({ queryKey: [messagesKey] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: [messagesKey] });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to send message',
+        variant: 'destructive',
+      });
     }
   });
   
-  const handleSendMessage = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!messageText.trim() || sendMessageMutation.isPending) return;
+  // Edit message mutation; the server rejects edits outside the edit window
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }): Promise<Message> => {
+      const res = await apiRequest('PATCH', `/api/messages/${id}`, { content });
+      return res.json();
+    },
+    onSuccess: replaceMessage,
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to edit message',
+        variant: 'destructive',
+      });
+    }
+  });
+  
+  // Delete message mutation; "everyone" is limited to senders (for a while) and group admins
+  const deleteMessageMutation = useMutation({
+    mutationFn: async ({ message, scope }: { message: Message; scope: DeleteScope }) => {
+      await apiRequest('DELETE', `/api/messages/${message.id}?scope=${scope}`);
+    },
+    onSuccess: (_, { message, scope }) => {
+      if (scope === 'me') {
+        updateLoadedMessages(messages => messages.filter(loaded => loaded.id !== message.id));
+      } else {
+        replaceMessage({ ...message, content: '', isDeleted: true });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete message',
+        variant: 'destructive',
+      });
+    }
+  });
+  
+  // Toggle reaction mutation; answers with the message's updated reactions
+  const reactionMutation = useMutation({
+    mutationFn: async ({ message, emoji, reacted }: { message: Message; emoji: string; reacted: boolean }): Promise<ReactionSummary[]> => {
+      const res = await apiRequest(reacted ? 'PUT' : 'DELETE', `/api/messages/${message.id}/reactions/${encodeURIComponent(emoji)}`);
+      return res.json();
+    },
+    onSuccess: (reactions, { message }) => setReactions(message.id, reactions),
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update reaction',
+        variant: 'destructive',
+      });
+    }
+  });
+  
+  const toggleReaction = (message: Message, emoji: string) => {
+    const mine = message.reactions?.some(reaction =>
+      reaction.emoji === emoji && reaction.users.some(user => user.id === userProfile?.id)
+    );
+    reactionMutation.mutate({ message, emoji, reacted: !mine });
+  };
+  
+  // Stars are private; the server tells this user's other sessions about changes
+  const { data: starred = [] } = useQuery<StarredMessage[]>({
+    queryKey: ['/api/starred'],
+    enabled: !!userProfile,
+  });
+  const starredIds = new Set(starred.map(message => message.id));
+  
+  const handleStarChanged = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/starred'] });
+  }, [queryClient]);
+  useWebSocketEvent('star_changed', handleStarChanged);
+  
+  const starMutation = useMutation({
+    mutationFn: async ({ message, starred }: { message: Message; starred: boolean }) => {
+      await apiRequest(starred ? 'PUT' : 'DELETE', `/api/messages/${message.id}/star`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/starred'] }),
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update starred messages',
+        variant: 'destructive',
+      });
+    }
+  });
+  
+  // The user's own messages waiting to be sent here; nobody else sees them
+  const { data: allScheduled = [] } = useQuery<ScheduledMessage[]>({
+    queryKey: ['/api/scheduled-messages'],
+    enabled: !!userProfile,
+  });
+  const scheduled = allScheduled.filter(message => message.chatId === chatId);
+  
+  // Scheduled, cancelled, sent or failed, possibly from another session
+  const handleScheduledChanged = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/scheduled-messages'] });
+  }, [queryClient]);
+  useWebSocketEvent('scheduled_messages_changed', handleScheduledChanged);
+  useWebSocketEvent('scheduled_message_sent', handleScheduledChanged);
+  useWebSocketEvent('scheduled_message_failed', handleScheduledChanged);
+  
+  const cancelScheduledMutation = useMutation({
+    mutationFn: async (message: ScheduledMessage) => {
+      await apiRequest('DELETE', `/api/scheduled-messages/${message.id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/scheduled-messages'] }),
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to cancel scheduled message',
+        variant: 'destructive',
+      });
+    }
+  });
+  
+  const pinnedIds = new Set(pins.map(message => message.id));
+  const currentPin = pins.length > 0 ? pins[pinIndex % pins.length] : null;
+  
+  const handlePinChanged = useCallback((event: { chatId: string }) => {
+    if (event.chatId === chatId) {
+      queryClient.invalidateQueries({ queryKey: [pinsKey] });
+    }
+  }, [chatId, pinsKey, queryClient]);
+  useWebSocketEvent('pin_changed', handlePinChanged);
+  
+  const pinMutation = useMutation({
+    mutationFn: async ({ message, pinned }: { message: Message; pinned: boolean }) => {
+      await apiRequest(pinned ? 'PUT' : 'DELETE', `/api/messages/${message.id}/pin`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [pinsKey] }),
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update pinned messages',
+        variant: 'destructive',
+      });
+    }
+  });
+  
+  const showNextPin = () => {
+    if (!currentPin) return;
+    jumpToMessage(currentPin.id);
+    setPinIndex(index => (index + 1) % pins.length);
+  };
+  
+  const isGroupAdmin = !!group?.members?.some(member => member.userId === userProfile?.id && member.isAdmin);
+  // Anyone in a DM may pin; in groups only admins
+  const canPin = !groupId || isGroupAdmin;
+  
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageText(message.content);
+  };
+  
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessageText('');
+  };
+  
+  const startReply = (message: Message) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(message);
+  };
+  
+  const toggleSelected = (message: Message) => {
+    setSelectedIds(prev => prev && (prev.includes(message.id)
+      ? prev.filter(id => id !== message.id)
+      : [...prev, message.id]));
+  };
+  
+  const jumpToNextMention = () => {
+    const [next] = unreadMentions;
+    if (!next) return;
     
-    // Send the message
-    sendMessageMutation.mutate(messageText);
+    jumpToMessage(next.id);
+    queryClient.setQueryData<Message[]>([mentionsKey], (previous = []) =>
+      previous.filter(message => message.id !== next.id)
+    );
+  };
+  
+  // Members matching the "@name" being typed; @all only for admins
+  const mentionQuery = groupId ? mentionQueryAt(messageText, caret) : null;
+  const mentionSuggestions = mentionQuery
+    ? [
+        ...(isGroupAdmin ? [MENTION_ALL] : []),
+        ...members
+          .filter(member => member.id !== userProfile?.id)
+          .map(member => member.username)
+      ]
+        .filter(name => name.toLowerCase().startsWith(mentionQuery.query.toLowerCase()))
+        .slice(0, 6)
+    : [];
+  
+  const insertMention = (name: string) => {
+    if (!mentionQuery) return;
+    
+    const before = messageText.slice(0, mentionQuery.start);
+    const after = messageText.slice(caret).replace(/^\S*/, '');
+    const inserted = `@${name} `;
+    const position = before.length + inserted.length;
+    
+    setMessageText(before + inserted + after.replace(/^ /, ''));
+    setCaret(position);
+    
+    // Put the caret after the inserted name once the input has the new text
+    window.requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+  
+  // Leave edit, reply and selection mode when switching chats
+  useEffect(() => {
+    setEditingMessage(null);
+    setReplyingTo(null);
+    setSelectedIds(null);
+    setPinIndex(0);
+    setIsSearching(false);
+    setSearchText('');
+  }, [chatId]);
+  
+  // Who wrote a message, as far as this view knows without a lookup
+  const senderLabel = (senderId: number, senderName?: string | null) => {
+    if (senderId === userProfile?.id) return 'You';
+    return senderName || (groupId ? 'Member' : chatData?.name || 'Unknown');
+  };
+  
+  // Scroll to a message; one that isn't loaded replaces the loaded history with the page around it
+  const jumpToMessage = async (id: number) => {
+    if (messages.some(message => message.id === id)) {
+      setJumpTargetId(id);
+      return;
+    }
+    if (isJumping) return;
     
-    // Also send through WebSocket for real-time updates
-    if (userProfile) {
-      sendMessage({
-        type: 'message',
-        data: {
-          senderId: userProfile.id,
-          chatId,
-          content: messageText,
-          contentType: 'text',
-          timestamp: new Date().toISOString()
-        }
+    setIsJumping(true);
+    try {
+      const page = await fetchMessagePage({ around: id });
+      await queryClient.cancelQueries({ queryKey: [messagesKey] });
+      queryClient.setQueryData<InfiniteData<MessagePage, PageParam>>([messagesKey], {
+        pages: [page],
+        pageParams: [{ around: id }]
       });
+      setJumpTargetId(id);
+    } catch (error) {
+      // 404 when the message is gone or hidden from this user
+      toast({ title: 'Original message is no longer available' });
+    } finally {
+      setIsJumping(false);
+    }
+  };
+  
+  // History left partway back after a jump is dropped on leaving the chat, so it reopens at the newest messages
+  useEffect(() => () => {
+    const loaded = queryClient.getQueryData<InfiniteData<MessagePage, PageParam>>([messagesKey]);
+    if (loaded?.pages[0]?.hasMoreAfter) {
+      queryClient.removeQueries({ queryKey: [messagesKey] });
+    }
+  }, [messagesKey]);
+  
+  // A message picked from outside the chat, e.g. a search result in the sidebar
+  useEffect(() => {
+    if (!focusMessageId || isLoading) return;
+    
+    jumpToMessage(focusMessageId);
+    onFocused?.();
+  }, [focusMessageId, isLoading]);
+  
+  const closeSearch = () => {
+    setIsSearching(false);
+    setSearchText('');
+  };
+  
+  useEffect(() => {
+    if (jumpTargetId === null) return;
+    
+    const element = document.getElementById(`message-${jumpTargetId}`);
+    if (!element) return;
+    
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(jumpTargetId);
+    setJumpTargetId(null);
+  }, [jumpTargetId, data]);
+  
+  useEffect(() => {
+    if (highlightedId === null) return;
+    
+    const timer = window.setTimeout(() => setHighlightedId(null), 2000);
+    return () => window.clearTimeout(timer);
+  }, [highlightedId]);
+  
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!messageText.trim()) return;
+    
+    if (editingMessage) {
+      if (messageText !== editingMessage.content) {
+        editMessageMutation.mutate({ id: editingMessage.id, content: messageText });
+      }
+      cancelEditing();
+      return;
     }
     
+    if (sendMessageMutation.isPending) return;
+    
+    // Send the message
+    stopTyping();
+    sendMessageMutation.mutate({ content: messageText, replyToId: replyingTo?.id });
+    
     // Clear the input
     setMessageText('');
+    setReplyingTo(null);
+  };
+  
+  // Load an older page when scrolled near the top, or a newer one near the bottom after a jump
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    
+    if (container.scrollTop < 100 && hasNextPage && !isFetchingNextPage) {
+      prependScrollHeight.current = container.scrollHeight;
+      fetchNextPage();
+    } else if (container.scrollHeight - container.scrollTop - container.clientHeight < 100 && hasPreviousPage && !isFetchingPreviousPage) {
+      appendingNewerPage.current = true;
+      fetchPreviousPage();
+    }
   };
   
-  // Scroll to bottom when messages change
   useEffect(() => {
-    if (messagesEndRef.current && messages.length > 0) {
+    const container = scrollContainerRef.current;
+    const newestId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    
+    if (container && prependScrollHeight.current !== null) {
+      // Older messages were prepended: keep the same messages in view
+      container.scrollTop += container.scrollHeight - prependScrollHeight.current;
+      prependScrollHeight.current = null;
+    } else if (appendingNewerPage.current) {
+      // Newer messages were appended below: stay where the reader is
+      appendingNewerPage.current = false;
+    } else if (messagesEndRef.current && newestId !== lastMessageId.current && !hasPreviousPage) {
+      // Scroll to bottom when a new message arrives
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+    
+    lastMessageId.current = newestId;
+  }, [data]);
   
   // Group messages by date for display
   const groupedMessages: Record<string, Message[]> = {};
@@ -134,8 +738,13 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData }) =>
           </div>
           <div>
             <h2 className="font-semibold text-white">{chatData?.name || 'Chat'}</h2>
-            <p className="text-xs text-white/80">
-              {chatData?.isOnline ? 'online' : 'last seen today at 12:45 PM'}
+            <p className="text-xs text-white/80 flex items-center">
+              {settings?.disappearingSeconds && (
+                <Timer className="h-3 w-3 mr-1" aria-label={`Disappearing messages: ${timerLabel(settings.disappearingSeconds)}`} />
+              )}
+              {chatData?.typingUsers?.length
+                ? formatTyping(chatData.typingUsers)
+                : chatData?.isOnline ? 'online' : formatLastSeen(chatData?.lastSeenAt)}
             </p>
           </div>
         </div>
@@ -143,22 +752,95 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData }) =>
           <button className="text-white/90 hover:text-white">
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 16.92v3a2 2 0 0 1-2.18 2 19.79 19.79 0 0 1-8.63-3.07 19.5 19.5 0 0 1-6-6 19.79 19.79 0 0 1-3.07-8.67A2 2 0 0 1 4.11 2h3a2 2 0 0 1 2 1.72 12.84 12.84 0 0 0 .7 2.81 2 2 0 0 1-.45 2.11L8.09 9.91a16 16 0 0 0 6 6l1.27-1.27a2 2 0 0 1 2.11-.45 12.84 12.84 0 0 0 2.81.7A2 2 0 0 1 22 16.92z"></path></svg>
           </button>
-          <button className="text-white/90 hover:text-white">
+          <button
+            type="button"
+            onClick={() => isSearching ? closeSearch() : setIsSearching(true)}
+            className="text-white/90 hover:text-white"
+            title="Search messages"
+          >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>
           </button>
-          <button className="text-white/90 hover:text-white">
+          <button
+            type="button"
+            onClick={() => setIsTimerOpen(true)}
+            className="text-white/90 hover:text-white"
+            title="Disappearing messages"
+          >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="1"></circle><circle cx="19" cy="12" r="1"></circle><circle cx="5" cy="12" r="1"></circle></svg>
           </button>
         </div>
       </div>
       
+      {/* Search within this chat */}
+      {isSearching && (
+        <div className="bg-white border-b border-gray-200">
+          <div className="flex items-center px-4 py-2">
+            <Input
+              autoFocus
+              type="text"
+              placeholder="Search messages"
+              className="flex-1"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && closeSearch()}
+            />
+            <button type="button" onClick={closeSearch} className="text-[#919191] ml-2" title="Close search">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="max-h-72 overflow-y-auto">
+            <MessageSearchResults
+              query={searchText}
+              chatId={chatId}
+              onSelect={(result) => {
+                jumpToMessage(result.id);
+                closeSearch();
+              }}
+            />
+          </div>
+        </div>
+      )}
+      
+      {/* Pinned messages banner */}
+      {currentPin && (
+        <div className="flex items-center bg-[#f0f0f0] border-b border-gray-200 px-4 py-2">
+          <Pin className="h-4 w-4 text-[#667781] mr-3 flex-shrink-0" />
+          <button type="button" onClick={showNextPin} className="flex-1 min-w-0 text-left">
+            <p className="text-xs font-medium text-[#128c7e]">
+              {pins.length > 1 ? `Pinned message ${(pinIndex % pins.length) + 1} of ${pins.length}` : 'Pinned message'}
+            </p>
+            <p className="text-sm text-[#303030] truncate">
+              {summarize(currentPin.content, currentPin.contentType, currentPin.isDeleted)}
+            </p>
+          </button>
+          {canPin && (
+            <button
+              type="button"
+              onClick={() => pinMutation.mutate({ message: currentPin, pinned: false })}
+              className="text-[#919191] ml-2"
+              title="Unpin"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      )}
+      
       {/* Chat Messages with white background */}
       <div 
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
         className="flex-1 overflow-y-auto p-3"
         style={{ 
           backgroundColor: '#ffffff',
         }}
       >
+        {(isFetchingNextPage || isJumping) && (
+          <div className="flex justify-center mb-2">
+            <p className="text-xs text-gray-500">{isJumping ? 'Loading message...' : 'Loading older messages...'}</p>
+          </div>
+        )}
+        
         {isLoading ? (
           <div className="flex justify-center">
             <p className="bg-white px-3 py-1 rounded-lg shadow-sm text-gray-500">
@@ -179,21 +861,100 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData }) =>
               
               {/* Messages for this date */}
               {groupedMessages[date].map((message: Message) => (
-                <ChatMessage
-                  key={message.id}
-                  content={message.content}
-                  contentType={message.contentType as 'text' | 'image' | 'file'}
-                  timestamp={new Date(message.timestamp)}
-                  isOwn={userProfile?.id === message.senderId}
-                  isRead={message.isRead}
-                />
+                <div key={message.id} id={`message-${message.id}`}>
+                  {message.contentType === 'system' ? (
+                    // Notices about the chat itself, such as timer changes
+                    <div className="flex justify-center my-2">
+                      <div className="bg-[#fff5c4] px-3 py-1 rounded-lg shadow-sm max-w-[80%] text-center">
+                        <span className="text-xs text-[#54656f]">{message.content}</span>
+                      </div>
+                    </div>
+                  ) : (
+                    <ChatMessage
+                      content={message.content}
+                      contentType={message.contentType as 'text' | 'image' | 'file'}
+                      mentions={message.mentions?.map(mention => ({
+                        offset: mention.offset,
+                        length: mention.length,
+                        mine: mention.userId === null || mention.userId === userProfile?.id
+                      }))}
+                      timestamp={new Date(message.timestamp)}
+                      isOwn={userProfile?.id === message.senderId}
+                      receipt={getReceipt(message)}
+                      isGroup={!!groupId}
+                      isEdited={!!message.editedAt}
+                      isDeleted={message.isDeleted}
+                      onEdit={userProfile?.id === message.senderId && (message.contentType ?? 'text') === 'text'
+                        ? () => startEditing(message)
+                        : undefined}
+                      onDelete={() => setDeletingMessage(message)}
+                      onShowHistory={() => setHistoryMessageId(message.id)}
+                      quote={message.replyToId
+                        ? message.replyTo && {
+                            sender: senderLabel(message.replyTo.senderId, message.replyTo.senderName),
+                            text: summarize(message.replyTo.content, message.replyTo.contentType, message.replyTo.isDeleted)
+                          }
+                        : undefined}
+                      onQuoteClick={message.replyToId ? () => jumpToMessage(message.replyToId!) : undefined}
+                      isHighlighted={highlightedId === message.id}
+                      onReply={() => startReply(message)}
+                      isForwarded={(message.forwardCount ?? 0) > 0}
+                      isForwardedManyTimes={message.forwardedManyTimes}
+                      onForward={() => setSelectedIds([message.id])}
+                      isStarred={starredIds.has(message.id)}
+                      onToggleStar={() => starMutation.mutate({ message, starred: !starredIds.has(message.id) })}
+                      isPinned={pinnedIds.has(message.id)}
+                      onTogglePin={canPin ? () => pinMutation.mutate({ message, pinned: !pinnedIds.has(message.id) }) : undefined}
+                      onSelect={selectedIds && !message.isDeleted ? () => toggleSelected(message) : undefined}
+                      isSelected={!!selectedIds?.includes(message.id)}
+                      reactions={message.reactions?.map(reaction => ({
+                        emoji: reaction.emoji,
+                        count: reaction.count,
+                        users: reaction.users.map(user => senderLabel(user.id, user.username)),
+                        mine: reaction.users.some(user => user.id === userProfile?.id)
+                      }))}
+                      onToggleReaction={(emoji) => toggleReaction(message, emoji)}
+                    />
+                  )}
+                </div>
               ))}
             </div>
           ))
         )}
         
+        {/* Scheduled messages, shown to their author only */}
+        {scheduled.length > 0 && (
+          <div className="space-y-1 mt-4">
+            <div className="flex justify-center mb-2">
+              <div className="bg-[#e1f2fb] px-3 py-1 rounded-lg shadow-sm">
+                <span className="text-xs text-[#5c6a73] font-medium">Scheduled</span>
+              </div>
+            </div>
+            {scheduled.map(message => (
+              <div key={message.id} className="flex justify-end">
+                <div className="message-bubble-sent opacity-70 max-w-[75%] px-3 py-1">
+                  <p className="text-sm text-[#303030] whitespace-pre-wrap break-words">{message.content}</p>
+                  <div className="flex items-center justify-end space-x-1 text-[11px] text-[#667781]">
+                    <Clock className="h-3 w-3" />
+                    <span>{format(new Date(message.sendAt), "MMM d 'at' h:mm a")}</span>
+                    <button
+                      type="button"
+                      onClick={() => cancelScheduledMutation.mutate(message)}
+                      disabled={cancelScheduledMutation.isPending}
+                      className="ml-1 hover:text-[#303030]"
+                      title="Cancel scheduled message"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        
         {/* Empty state */}
-        {!isLoading && Object.keys(groupedMessages).length === 0 && (
+        {!isLoading && Object.keys(groupedMessages).length === 0 && scheduled.length === 0 && (
           <div className="flex flex-col justify-center items-center h-full">
             <div className="w-16 h-16 rounded-full bg-[#25d366] flex items-center justify-center mb-4">
               <svg viewBox="0 0 24 24" width="36" height="36" fill="white">
@@ -205,12 +966,96 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData }) =>
           </div>
         )}
         
+        {isFetchingPreviousPage && (
+          <div className="flex justify-center mt-2">
+            <p className="text-xs text-gray-500">Loading newer messages...</p>
+          </div>
+        )}
+        
         {/* Invisible element to scroll to */}
         <div ref={messagesEndRef} />
       </div>
       
+      {/* Jump to the next unread mention */}
+      {unreadMentions.length > 0 && !selectedIds && (
+        <div className="relative">
+          <button
+            type="button"
+            onClick={jumpToNextMention}
+            title="Unread mentions"
+            className="absolute right-4 bottom-3 h-10 w-10 rounded-full bg-white shadow-md flex items-center justify-center text-[#128c7e]"
+          >
+            <AtSign className="h-5 w-5" />
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-[#25d366] text-white text-[10px] flex items-center justify-center">
+              {unreadMentions.length}
+            </span>
+          </button>
+        </div>
+      )}
+      
+      {/* Selection bar replaces the input while picking messages to forward */}
+      {selectedIds && (
+        <div className="bg-[#f0f0f0] px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center">
+            <button type="button" onClick={() => setSelectedIds(null)} className="text-[#919191] mr-3" title="Cancel selection">
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+            </button>
+            <span className="text-sm text-[#303030]">{selectedIds.length} selected</span>
+          </div>
+          <Button
+            type="button"
+            onClick={() => setIsForwardOpen(true)}
+            disabled={selectedIds.length === 0}
+            className="bg-[#25d366] hover:bg-[#128c7e] text-white"
+          >
+            Forward
+          </Button>
+        </div>
+      )}
+      
       {/* WhatsApp-style Chat Input */}
-      <div className="bg-[#f0f0f0] px-4 py-2">
+      <div className={cn('bg-[#f0f0f0] px-4 py-2', selectedIds && 'hidden')}>
+        {editingMessage && (
+          <div className="flex items-center justify-between bg-white border-l-4 border-[#25d366] rounded px-3 py-1 mb-2">
+            <div className="min-w-0">
+              <p className="text-xs font-medium text-[#128c7e]">Editing message</p>
+              <p className="text-xs text-gray-500 truncate">{editingMessage.content}</p>
+            </div>
+            <button type="button" onClick={cancelEditing} className="text-[#919191] ml-2" title="Cancel editing">
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+            </button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="flex items-center justify-between bg-white border-l-4 border-[#128c7e] rounded px-3 py-1 mb-2">
+            <div className="min-w-0">
+              <p className="text-xs font-medium text-[#128c7e]">Replying to {senderLabel(replyingTo.senderId)}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {summarize(replyingTo.content, replyingTo.contentType, replyingTo.isDeleted)}
+              </p>
+            </div>
+            <button type="button" onClick={() => setReplyingTo(null)} className="text-[#919191] ml-2" title="Cancel reply">
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+            </button>
+          </div>
+        )}
+        {mentionSuggestions.length > 0 && (
+          <ul className="bg-white rounded shadow-sm mb-2 py-1">
+            {mentionSuggestions.map(name => (
+              <li key={name}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(name)}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-gray-100"
+                >
+                  <span className="font-medium text-[#128c7e]">@{name}</span>
+                  {name === MENTION_ALL && <span className="ml-2 text-xs text-gray-500">Notify everyone</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
         <form onSubmit={handleSendMessage} className="whatsapp-message-input">
           <button type="button" className="text-[#919191] p-2">
             <svg viewBox="0 0 24 24" width="24" height="24" className="fill-current">
@@ -224,11 +1069,27 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData }) =>
           </button>
           <div className="flex-1 mx-2">
             <Input
+              ref={inputRef}
               type="text"
               placeholder="Type a message"
               className="w-full p-2 border-none focus:ring-0 focus:outline-none bg-transparent"
               value={messageText}
-              onChange={(e) => setMessageText(e.target.value)}
+              onChange={(e) => {
+                setMessageText(e.target.value);
+                setCaret(e.target.selectionStart ?? e.target.value.length);
+                if (e.target.value && !editingMessage) notifyTyping();
+              }}
+              onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && mentionSuggestions.length > 0) {
+                  e.preventDefault();
+                  insertMention(mentionSuggestions[0]);
+                  return;
+                }
+                if (e.key !== 'Escape') return;
+                if (editingMessage) cancelEditing();
+                setReplyingTo(null);
+              }}
             />
           </div>
           {!messageText.trim() ? (
@@ -238,18 +1099,69 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, onBackClick, chatData }) =>
               </svg>
             </button>
           ) : (
-            <Button
-              type="submit"
-              disabled={!messageText.trim() || sendMessageMutation.isPending}
-              className="p-2 text-white bg-[#25d366] rounded-full h-10 w-10 flex items-center justify-center"
-            >
-              <svg viewBox="0 0 24 24" width="24" height="24" className="fill-current">
-                <path d="M1.101 21.757L23.8 12.028 1.101 2.3l.011 7.912 13.623 1.816-13.623 1.817-.011 7.912z"/>
-              </svg>
-            </Button>
+            <>
+              {!editingMessage && (
+                <button
+                  type="button"
+                  onClick={() => setIsScheduleOpen(true)}
+                  className="p-2 text-[#919191] hover:text-[#128c7e]"
+                  title="Schedule message"
+                >
+                  <Clock className="h-5 w-5" />
+                </button>
+              )}
+              <Button
+                type="submit"
+                disabled={!messageText.trim() || (!editingMessage && sendMessageMutation.isPending)}
+                className="p-2 text-white bg-[#25d366] rounded-full h-10 w-10 flex items-center justify-center"
+              >
+                <svg viewBox="0 0 24 24" width="24" height="24" className="fill-current">
+                  <path d="M1.101 21.757L23.8 12.028 1.101 2.3l.011 7.912 13.623 1.816-13.623 1.817-.011 7.912z"/>
+                </svg>
+              </Button>
+            </>
           )}
         </form>
       </div>
+      
+      <MessageHistoryDialog
+        message={messages.find(message => message.id === historyMessageId) ?? null}
+        onClose={() => setHistoryMessageId(null)}
+      />
+      
+      <DeleteMessageDialog
+        message={deletingMessage}
+        canDeleteForEveryone={!!deletingMessage && (deletingMessage.senderId === userProfile?.id || isGroupAdmin)}
+        onDelete={(message, scope) => deleteMessageMutation.mutate({ message, scope })}
+        onClose={() => setDeletingMessage(null)}
+      />
+      
+      <ForwardMessagesDialog
+        messageIds={isForwardOpen ? selectedIds : null}
+        onForwarded={() => setSelectedIds(null)}
+        onClose={() => setIsForwardOpen(false)}
+      />
+      
+      <ScheduleMessageDialog
+        isOpen={isScheduleOpen}
+        chatId={chatId}
+        content={messageText}
+        replyToId={replyingTo?.id}
+        onScheduled={() => {
+          stopTyping();
+          setMessageText('');
+          setReplyingTo(null);
+        }}
+        onClose={() => setIsScheduleOpen(false)}
+      />
+      
+      <DisappearingMessagesDialog
+        isOpen={isTimerOpen}
+        chatId={chatId}
+        seconds={settings?.disappearingSeconds ?? null}
+        canChange={!groupId || isGroupAdmin}
+        onClose={() => setIsTimerOpen(false)}
+      />
     </div>
   );
 };
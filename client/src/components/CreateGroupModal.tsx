@@ -38,7 +38,6 @@ const CreateGroupModal: React.FC<CreateGroupModalProps> = ({ isOpen, onClose })
       const groupData = {
         name: groupName.trim(),
         description: description.trim() || undefined,
-        creatorId: userProfile.id,
         profilePicture: groupIcon || undefined
       };
       
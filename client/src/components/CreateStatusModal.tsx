@@ -46,7 +46,6 @@ const CreateStatusModal: React.FC<CreateStatusModalProps> = ({ isOpen, onClose }
       }
       
       const statusData = {
-        userId: userProfile.id,
         content,
         contentType,
         caption: caption.trim() || undefined,
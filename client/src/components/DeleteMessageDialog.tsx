@@ -0,0 +1,56 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Message } from '@/types';
+
+export type DeleteScope = 'me' | 'everyone';
+
+interface DeleteMessageDialogProps {
+  // The message being deleted; the dialog is closed while null
+  message: Message | null;
+  // Own messages and, for group admins, any message
+  canDeleteForEveryone: boolean;
+  onDelete: (message: Message, scope: DeleteScope) => void;
+  onClose: () => void;
+}
+
+const DeleteMessageDialog: React.FC<DeleteMessageDialogProps> = ({ message, canDeleteForEveryone, onDelete, onClose }) => {
+  const handleDelete = (scope: DeleteScope) => {
+    if (message) onDelete(message, scope);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Delete message?</DialogTitle>
+        </DialogHeader>
+
+        <DialogFooter className="flex-col space-y-2 sm:flex-col sm:space-x-0">
+          {canDeleteForEveryone && (
+            <Button
+              variant="ghost"
+              className="w-full text-[#128c7e]"
+              onClick={() => handleDelete('everyone')}
+            >
+              Delete for everyone
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            className="w-full text-[#128c7e]"
+            onClick={() => handleDelete('me')}
+          >
+            Delete for me
+          </Button>
+          <Button variant="ghost" className="w-full" onClick={onClose}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeleteMessageDialog;
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { ChatSettings } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+
+// Timers the server accepts, in seconds
+export const DISAPPEARING_TIMERS = [
+  { seconds: 86400, label: '24 hours' },
+  { seconds: 604800, label: '7 days' },
+  { seconds: 7776000, label: '90 days' },
+];
+
+export const timerLabel = (seconds: number | null | undefined) =>
+  DISAPPEARING_TIMERS.find(timer => timer.seconds === seconds)?.label ?? 'Off';
+
+interface DisappearingMessagesDialogProps {
+  isOpen: boolean;
+  chatId: string;
+  // The chat's current timer; null when off
+  seconds: number | null;
+  // Group members who aren't admins can only look
+  canChange: boolean;
+  onClose: () => void;
+}
+
+const DisappearingMessagesDialog: React.FC<DisappearingMessagesDialogProps> = ({ isOpen, chatId, seconds, canChange, onClose }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState(String(seconds ?? 'off'));
+
+  // Start from the chat's timer each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setSelected(String(seconds ?? 'off'));
+  }, [isOpen, seconds]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (value: number | null): Promise<ChatSettings> => {
+      const res = await apiRequest('PUT', `/api/chats/${chatId}/disappearing`, { seconds: value });
+      return res.json();
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData([`/api/chats/${chatId}/settings`], settings);
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to change disappearing messages',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const handleSave = () => {
+    updateMutation.mutate(selected === 'off' ? null : Number(selected));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Disappearing messages</DialogTitle>
+          <DialogDescription>
+            New messages in this chat will disappear for everyone after the chosen time.
+            {!canChange && ' Only group admins can change this.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={selected} onValueChange={setSelected} disabled={!canChange} className="space-y-1">
+          {[{ value: 'off', label: 'Off' }, ...DISAPPEARING_TIMERS.map(timer => ({ value: String(timer.seconds), label: timer.label }))]
+            .map(option => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`disappearing-${option.value}`} />
+                <Label htmlFor={`disappearing-${option.value}`}>{option.label}</Label>
+              </div>
+            ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={updateMutation.isPending}>
+            {canChange ? 'Cancel' : 'Close'}
+          </Button>
+          {canChange && (
+            <Button
+              onClick={handleSave}
+              disabled={updateMutation.isPending || selected === String(seconds ?? 'off')}
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DisappearingMessagesDialog;
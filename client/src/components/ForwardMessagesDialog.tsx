@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { ChatGroup } from '@/types';
+import { directChatId } from '@/lib/utils';
+import { useAuth } from '@/lib/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import UserList from './UserList';
+
+interface ForwardMessagesDialogProps {
+  // Messages to forward; the dialog is closed while null
+  messageIds: number[] | null;
+  onForwarded: () => void;
+  onClose: () => void;
+}
+
+const ForwardMessagesDialog: React.FC<ForwardMessagesDialogProps> = ({ messageIds, onForwarded, onClose }) => {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedUserIds, setSelectedUserIds] = useState<number[]>([]);
+  const [selectedGroupIds, setSelectedGroupIds] = useState<number[]>([]);
+
+  const { data: groups = [] } = useQuery<ChatGroup[]>({
+    queryKey: [`/api/users/${userProfile?.id}/groups`],
+    enabled: !!messageIds && !!userProfile?.id,
+  });
+
+  // Start from an empty selection each time the dialog opens
+  useEffect(() => {
+    setSelectedUserIds([]);
+    setSelectedGroupIds([]);
+  }, [messageIds]);
+
+  const forwardMutation = useMutation({
+    mutationFn: async () => {
+      const chatIds = [
+        ...selectedUserIds.map(userId => directChatId(userProfile!.id, userId)),
+        ...selectedGroupIds.map(groupId => `group_${groupId}`)
+      ];
+      await apiRequest('POST', '/api/messages/forward', { messageIds, chatIds });
+      return chatIds;
+    },
+    onSuccess: (chatIds) => {
+      chatIds.forEach(chatId => {
+        queryClient.invalidateQueries({ queryKey: [`/api/messages/${chatId}`] });
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userProfile?.id}/conversations`] });
+
+      toast({
+        title: 'Forwarded',
+        description: `Sent to ${chatIds.length} ${chatIds.length === 1 ? 'chat' : 'chats'}`,
+      });
+
+      onForwarded();
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to forward messages',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const toggleGroup = (groupId: number) => {
+    setSelectedGroupIds(prev => prev.includes(groupId)
+      ? prev.filter(id => id !== groupId)
+      : [...prev, groupId]);
+  };
+
+  const targetCount = selectedUserIds.length + selectedGroupIds.length;
+
+  return (
+    <Dialog open={!!messageIds} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            Forward {messageIds?.length === 1 ? 'message' : `${messageIds?.length ?? 0} messages`} to...
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          {groups.length > 0 && (
+            <div className="space-y-1">
+              <h3 className="font-medium text-sm text-gray-500">Groups</h3>
+              {groups.map(group => (
+                <div
+                  key={group.id}
+                  className={`flex items-center p-2 rounded-lg ${
+                    selectedGroupIds.includes(group.id)
+                      ? 'bg-primary/10'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                  onClick={() => toggleGroup(group.id)}
+                  role="button"
+                  tabIndex={0}
+                >
+                  <Checkbox
+                    checked={selectedGroupIds.includes(group.id)}
+                    className="mr-2"
+                    tabIndex={-1}
+                  />
+                  <p className="text-sm font-medium truncate">{group.name}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <UserList
+            onSelectUsers={() => {}}
+            onSelectionChange={setSelectedUserIds}
+            selectedUserIds={selectedUserIds}
+            title="Contacts"
+            buttonText=""
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={forwardMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => forwardMutation.mutate()}
+            disabled={targetCount === 0 || forwardMutation.isPending}
+          >
+            {forwardMutation.isPending ? 'Forwarding...' : 'Forward'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ForwardMessagesDialog;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Message, MessageRevision } from '@/types';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+
+interface MessageHistoryDialogProps {
+  // The edited message whose history is shown; the dialog is closed while null
+  message: Message | null;
+  onClose: () => void;
+}
+
+const MessageHistoryDialog: React.FC<MessageHistoryDialogProps> = ({ message, onClose }) => {
+  const { data: revisions = [], isLoading } = useQuery<MessageRevision[]>({
+    queryKey: [`/api/messages/${message?.id}/revisions`],
+    enabled: !!message,
+  });
+
+  // Oldest first, ending with what the chat shows now
+  const versions = message
+    ? [
+        ...revisions.map(revision => ({ key: `revision_${revision.id}`, content: revision.content, writtenAt: revision.writtenAt })),
+        { key: 'current', content: message.content, writtenAt: message.editedAt ?? message.timestamp }
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : (
+          <ul className="space-y-3 max-h-80 overflow-y-auto">
+            {versions.map((version, index) => (
+              <li key={version.key} className="border-b border-gray-100 pb-2 last:border-none">
+                <p className="text-[14px] text-[#303030] whitespace-pre-wrap">{version.content}</p>
+                <p className="text-[11px] text-[#667781] mt-1">
+                  {index === 0 ? 'Sent' : 'Edited'} {format(new Date(version.writtenAt), 'MMM d, h:mm a')}
+                  {version.key === 'current' && ' · current'}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageHistoryDialog;
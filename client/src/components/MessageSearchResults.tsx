@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { ChatItem, MessageSearchPage, MessageSearchResult } from '@/types';
+import { useAuth } from '@/lib/useAuth';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+
+// Wait for a pause in typing before asking the server
+const SEARCH_DELAY_MS = 300;
+
+interface MessageSearchResultsProps {
+  query: string;
+  // Search one chat only; otherwise every chat the user is in
+  chatId?: string;
+  // Names the chat of each result when searching everywhere
+  chats?: ChatItem[];
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+// Split a snippet around its highlighted ranges
+function highlightParts(result: MessageSearchResult) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+
+  result.highlights.forEach(({ offset, length }) => {
+    if (offset > position) parts.push({ text: result.snippet.slice(position, offset), highlighted: false });
+    parts.push({ text: result.snippet.slice(offset, offset + length), highlighted: true });
+    position = offset + length;
+  });
+
+  if (position < result.snippet.length) parts.push({ text: result.snippet.slice(position), highlighted: false });
+  return parts;
+}
+
+const MessageSearchResults: React.FC<MessageSearchResultsProps> = ({ query, chatId, chats = [], onSelect }) => {
+  const { userProfile } = useAuth();
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/search/messages', debouncedQuery, chatId],
+    queryFn: async ({ pageParam }): Promise<MessageSearchPage> => {
+      const params = new URLSearchParams({ q: debouncedQuery });
+      if (chatId) params.set('chatId', chatId);
+      if (pageParam) params.set('before', pageParam);
+
+      const res = await apiRequest('GET', `/api/search/messages?${params}`);
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.hasMore ? lastPage.cursors.before : undefined,
+    enabled: !!debouncedQuery,
+    // Messages change all the time; never show an old answer to a new search
+    staleTime: 0,
+  });
+
+  const results = data?.pages.flatMap(page => page.results) ?? [];
+  const chatName = (id: string) => chats.find(chat => chat.id === id)?.name || 'Chat';
+
+  if (!debouncedQuery) return null;
+
+  if (isLoading) {
+    return <p className="p-4 text-sm text-center text-gray-500">Searching messages...</p>;
+  }
+
+  if (results.length === 0) {
+    return <p className="p-4 text-sm text-center text-gray-500">No messages found</p>;
+  }
+
+  return (
+    <ul>
+      {results.map(result => (
+        <li key={result.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(result)}
+            className="w-full text-left px-4 py-2 border-t border-gray-100 hover:bg-gray-100"
+          >
+            <div className="flex justify-between text-xs text-[#667781]">
+              <span className="font-medium text-[#128c7e] truncate">{!chatId && chatName(result.chatId)}</span>
+              <span className="ml-2 flex-shrink-0">{format(new Date(result.timestamp), 'MMM d, h:mm a')}</span>
+            </div>
+            <p className="text-sm text-[#303030] line-clamp-2">
+              {result.senderId === userProfile?.id && 'You: '}
+              {highlightParts(result).map((part, index) => part.highlighted ? (
+                <span key={index} className="font-semibold text-[#128c7e]">{part.text}</span>
+              ) : (
+                <React.Fragment key={index}>{part.text}</React.Fragment>
+              ))}
+            </p>
+          </button>
+        </li>
+      ))}
+      {hasNextPage && (
+        <li className="flex justify-center py-2">
+          <button
+            type="button"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="text-xs text-[#128c7e] hover:underline"
+          >
+            {isFetchingNextPage ? 'Loading...' : 'More results'}
+          </button>
+        </li>
+      )}
+    </ul>
+  );
+};
+
+export default MessageSearchResults;
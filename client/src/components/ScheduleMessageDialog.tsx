@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { ScheduledMessage } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { addDays, format, setHours, startOfDay } from 'date-fns';
+
+// Value format of a datetime-local input
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface ScheduleMessageDialogProps {
+  isOpen: boolean;
+  chatId: string;
+  // The composer's message, sent as is when its time comes
+  content: string;
+  replyToId?: number;
+  onScheduled: (scheduled: ScheduledMessage) => void;
+  onClose: () => void;
+}
+
+// Tomorrow at 9am, the usual time for a reminder
+const defaultSendAt = () => format(setHours(startOfDay(addDays(new Date(), 1)), 9), INPUT_FORMAT);
+
+const ScheduleMessageDialog: React.FC<ScheduleMessageDialogProps> = ({ isOpen, chatId, content, replyToId, onScheduled, onClose }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sendAt, setSendAt] = useState(defaultSendAt);
+
+  useEffect(() => {
+    if (isOpen) setSendAt(defaultSendAt());
+  }, [isOpen]);
+
+  const sendAtDate = sendAt ? new Date(sendAt) : null;
+  const isValid = !!sendAtDate && !isNaN(sendAtDate.getTime()) && sendAtDate > new Date();
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (): Promise<ScheduledMessage> => {
+      const res = await apiRequest('POST', '/api/scheduled-messages', {
+        chatId,
+        content,
+        replyToId,
+        sendAt: sendAtDate!.toISOString()
+      });
+      return res.json();
+    },
+    onSuccess: (scheduled) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-messages'] });
+      toast({
+        title: 'Message scheduled',
+        description: `It will be sent ${format(new Date(scheduled.sendAt), "MMM d 'at' h:mm a")}`,
+      });
+      onScheduled(scheduled);
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to schedule message',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Schedule message</DialogTitle>
+          <DialogDescription className="truncate">{content}</DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="datetime-local"
+          value={sendAt}
+          min={format(new Date(), INPUT_FORMAT)}
+          onChange={(e) => setSendAt(e.target.value)}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={scheduleMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => scheduleMutation.mutate()}
+            disabled={!isValid || scheduleMutation.isPending}
+            className="bg-[#25d366] hover:bg-[#128c7e] text-white"
+          >
+            {scheduleMutation.isPending ? 'Scheduling...' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleMessageDialog;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChatItem, StarredMessage } from '@/types';
+import { useAuth } from '@/lib/useAuth';
+import { summarize } from '@/lib/utils';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Star } from 'lucide-react';
+
+interface StarredMessagesDialogProps {
+  isOpen: boolean;
+  // Names the chat each message comes from
+  chats: ChatItem[];
+  onOpenChat: (chatId: string) => void;
+  onClose: () => void;
+}
+
+const StarredMessagesDialog: React.FC<StarredMessagesDialogProps> = ({ isOpen, chats, onOpenChat, onClose }) => {
+  const { userProfile } = useAuth();
+  const { data: starred = [], isLoading } = useQuery<StarredMessage[]>({
+    queryKey: ['/api/starred'],
+    enabled: isOpen && !!userProfile,
+  });
+
+  const chatName = (chatId: string) => chats.find(chat => chat.id === chatId)?.name || 'Chat';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Starred messages</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading starred messages...</p>
+        ) : starred.length === 0 ? (
+          <div className="text-center py-8">
+            <Star className="h-8 w-8 mx-auto text-gray-400 mb-2" />
+            <p className="text-sm text-gray-500">Star messages to find them here later</p>
+          </div>
+        ) : (
+          <ul className="space-y-1 max-h-96 overflow-y-auto">
+            {starred.map(message => (
+              <li key={message.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onOpenChat(message.chatId);
+                    onClose();
+                  }}
+                  className="w-full text-left p-2 rounded-lg hover:bg-gray-100"
+                >
+                  <div className="flex justify-between text-xs text-[#667781]">
+                    <span className="font-medium text-[#128c7e] truncate">{chatName(message.chatId)}</span>
+                    <span className="ml-2 flex-shrink-0">{format(new Date(message.timestamp), 'MMM d, h:mm a')}</span>
+                  </div>
+                  <p className="text-[14px] text-[#303030] line-clamp-2">
+                    {message.senderId === userProfile?.id && 'You: '}
+                    {summarize(message.content, message.contentType, message.isDeleted)}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StarredMessagesDialog;
@@ -46,9 +46,7 @@ const StatusViewer: React.FC<StatusViewerProps> = ({
     mutationFn: async () => {
       if (!userProfile) return null;
       
-      return apiRequest('POST', `/api/statuses/${statusId}/views`, {
-        viewerId: userProfile.id
-      });
+      return apiRequest('POST', `/api/statuses/${statusId}/views`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/statuses/${statusId}/views`] });
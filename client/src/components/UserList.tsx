@@ -10,6 +10,8 @@ import { useAuth } from '@/lib/useAuth';
 
 interface UserListProps {
   onSelectUsers: (selectedUsers: User[]) => void;
+  // Called on every toggle, for parents that confirm the selection themselves
+  onSelectionChange?: (selectedUserIds: number[]) => void;
   selectedUserIds?: number[];
   showSearch?: boolean;
   showSelect?: boolean;
@@ -21,6 +23,7 @@ interface UserListProps {
 
 const UserList: React.FC<UserListProps> = ({
   onSelectUsers,
+  onSelectionChange,
   selectedUserIds = [],
   showSearch = true,
   showSelect = true,
@@ -75,20 +78,18 @@ const UserList: React.FC<UserListProps> = ({
   }, [selectedUserIds]);
 
   const handleUserToggle = (userId: number) => {
-    setSelected(prev => {
+    let next = selected;
+    
+    if (selected.includes(userId)) {
       // If user is already selected, remove them
-      if (prev.includes(userId)) {
-        return prev.filter(id => id !== userId);
-      }
-      
-      // Check if we've reached the limit
-      if (limit && prev.length >= limit) {
-        return prev;
-      }
-      
-      // Otherwise, add the user
-      return [...prev, userId];
-    });
+      next = selected.filter(id => id !== userId);
+    } else if (!limit || selected.length < limit) {
+      // Otherwise add the user, unless we've reached the limit
+      next = [...selected, userId];
+    }
+    
+    setSelected(next);
+    onSelectionChange?.(next);
   };
 
   const handleConfirm = () => {
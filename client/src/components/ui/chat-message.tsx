@@ -1,32 +1,225 @@
 import React from 'react';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
-import { Check, CheckCheck } from 'lucide-react';
+import { Ban, Check, CheckCheck, Forward, Pencil, Pin, PinOff, Reply, Smile, Star, StarOff, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+
+// Offered by the reaction picker
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Split text content around its mentions so they can be styled
+function mentionParts(content: string, mentions: { offset: number; length: number; mine: boolean }[]) {
+  const parts: { text: string; mention?: { mine: boolean } }[] = [];
+  let position = 0;
+  
+  [...mentions]
+    .sort((a, b) => a.offset - b.offset)
+    .forEach(mention => {
+      if (mention.offset < position || mention.offset + mention.length > content.length) return;
+      if (mention.offset > position) parts.push({ text: content.slice(position, mention.offset) });
+      parts.push({ text: content.slice(mention.offset, mention.offset + mention.length), mention });
+      position = mention.offset + mention.length;
+    });
+  
+  if (position < content.length) parts.push({ text: content.slice(position) });
+  return parts;
+}
 
 interface ChatMessageProps {
   content: string;
   contentType?: 'text' | 'image' | 'file';
+  // "@name" ranges in text content; `mine` marks ones that reach the current user
+  mentions?: { offset: number; length: number; mine: boolean }[];
   timestamp: Date;
   isOwn: boolean;
-  isRead?: boolean;
+  // How many recipients the message reached and how many read it, out of how many
+  receipt?: { delivered: number; read: number; total: number };
+  isGroup?: boolean;
   sender?: string;
+  isEdited?: boolean;
+  // Deleted for everyone: show a tombstone instead of the content
+  isDeleted?: boolean;
+  // Copied from another chat; past a server-set threshold it was "forwarded many times"
+  isForwarded?: boolean;
+  isForwardedManyTimes?: boolean;
+  // Who and what this message replies to; null when the quoted message is gone
+  quote?: { sender: string; text: string } | null;
+  // Jump to the quoted message
+  onQuoteClick?: () => void;
+  // Briefly emphasised, e.g. after jumping to it from a reply
+  isHighlighted?: boolean;
+  onReply?: () => void;
+  onForward?: () => void;
+  // Starred by the current user only; pinned for the whole chat
+  isStarred?: boolean;
+  onToggleStar?: () => void;
+  isPinned?: boolean;
+  // Only passed to users who may pin in this chat
+  onTogglePin?: () => void;
+  // Set while messages are being picked; clicking the message then toggles it
+  onSelect?: () => void;
+  isSelected?: boolean;
+  // Reaction chips; `mine` marks the ones the current user added
+  reactions?: { emoji: string; count: number; users: string[]; mine: boolean }[];
+  // Add the user's reaction with this emoji, or take it back
+  onToggleReaction?: (emoji: string) => void;
+  // Start editing; only passed for messages the user may edit
+  onEdit?: () => void;
+  onDelete?: () => void;
+  // Open the revision history of an edited message
+  onShowHistory?: () => void;
   className?: string;
 }
 
 export const ChatMessage: React.FC<ChatMessageProps> = ({
   content,
   contentType = 'text',
+  mentions = [],
   timestamp,
   isOwn,
-  isRead,
+  receipt,
+  isGroup,
   sender,
+  isEdited,
+  isDeleted,
+  isForwarded,
+  isForwardedManyTimes,
+  quote,
+  onQuoteClick,
+  isHighlighted,
+  onReply,
+  onForward,
+  isStarred,
+  onToggleStar,
+  isPinned,
+  onTogglePin,
+  onSelect,
+  isSelected,
+  reactions = [],
+  onToggleReaction,
+  onEdit,
+  onDelete,
+  onShowHistory,
   className,
 }) => {
+  // Sent until every recipient has it, then delivered, then read
+  const status = !receipt || receipt.total === 0
+    ? 'sent'
+    : receipt.read >= receipt.total
+      ? 'read'
+      : receipt.delivered >= receipt.total ? 'delivered' : 'sent';
   const bubbleClass = isOwn ? 'chat-bubble-mine' : 'chat-bubble-other';
   const triangleClass = isOwn ? 'triangle-left' : 'triangle-right';
   
+  // Hover actions sit on the inner side of the bubble
+  const actions = !isDeleted && !onSelect && (onToggleReaction || onReply || onForward || onToggleStar || onTogglePin || onEdit || onDelete) && (
+    <div className={cn('flex opacity-0 group-hover:opacity-100', isOwn ? 'mr-1' : 'ml-1 order-last')}>
+      {onToggleReaction && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              title="React"
+              className="p-1 text-[#667781] hover:text-[#303030]"
+            >
+              <Smile className="h-3 w-3" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-1 flex space-x-1" side="top">
+            {QUICK_REACTIONS.map(emoji => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => onToggleReaction(emoji)}
+                className={cn(
+                  'text-lg px-1 rounded hover:bg-gray-100',
+                  reactions.some(reaction => reaction.emoji === emoji && reaction.mine) && 'bg-[#25d366]/20'
+                )}
+              >
+                {emoji}
+              </button>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+      {onReply && (
+        <button
+          type="button"
+          onClick={onReply}
+          title="Reply"
+          className="p-1 text-[#667781] hover:text-[#303030]"
+        >
+          <Reply className="h-3 w-3" />
+        </button>
+      )}
+      {onForward && (
+        <button
+          type="button"
+          onClick={onForward}
+          title="Forward"
+          className="p-1 text-[#667781] hover:text-[#303030]"
+        >
+          <Forward className="h-3 w-3" />
+        </button>
+      )}
+      {onToggleStar && (
+        <button
+          type="button"
+          onClick={onToggleStar}
+          title={isStarred ? 'Unstar' : 'Star'}
+          className="p-1 text-[#667781] hover:text-[#303030]"
+        >
+          {isStarred ? <StarOff className="h-3 w-3" /> : <Star className="h-3 w-3" />}
+        </button>
+      )}
+      {onTogglePin && (
+        <button
+          type="button"
+          onClick={onTogglePin}
+          title={isPinned ? 'Unpin' : 'Pin'}
+          className="p-1 text-[#667781] hover:text-[#303030]"
+        >
+          {isPinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+        </button>
+      )}
+      {onEdit && (
+        <button
+          type="button"
+          onClick={onEdit}
+          title="Edit message"
+          className="p-1 text-[#667781] hover:text-[#303030]"
+        >
+          <Pencil className="h-3 w-3" />
+        </button>
+      )}
+      {onDelete && (
+        <button
+          type="button"
+          onClick={onDelete}
+          title="Delete message"
+          className="p-1 text-[#667781] hover:text-[#303030]"
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+  
   return (
-    <div className={cn('flex mb-1', isOwn ? 'justify-end' : '', className)}>
+    <div
+      className={cn(
+        'group flex items-center mb-1 rounded transition-colors duration-500',
+        isOwn ? 'justify-end' : '',
+        !isDeleted && reactions.length > 0 && 'mb-5',
+        isHighlighted && 'bg-[#25d366]/20',
+        onSelect && 'cursor-pointer',
+        isSelected && 'bg-[#128c7e]/10',
+        className
+      )}
+      onClick={onSelect}
+    >
+      {actions}
       <div className={cn(
         isOwn ? 'message-bubble-sent' : 'message-bubble-received',
         'relative max-w-xs md:max-w-md'
@@ -35,17 +228,60 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           <p className="text-xs font-medium text-[#128c7e] mb-1">{sender}</p>
         )}
         
-        {contentType === 'text' && (
-          <p className="text-[#303030] text-[14px] leading-tight">{content}</p>
+        {!isDeleted && isForwarded && (
+          <p className="flex items-center text-xs text-[#667781] italic mb-1">
+            <Forward className="h-3 w-3 mr-1" />
+            {isForwardedManyTimes ? 'Forwarded many times' : 'Forwarded'}
+          </p>
+        )}
+        
+        {!isDeleted && quote !== undefined && (
+          <button
+            type="button"
+            onClick={onQuoteClick}
+            disabled={!quote}
+            className="block w-full text-left mb-1 px-2 py-1 rounded bg-black/5 border-l-4 border-[#128c7e]"
+          >
+            {quote ? (
+              <>
+                <p className="text-xs font-medium text-[#128c7e]">{quote.sender}</p>
+                <p className="text-xs text-[#667781] line-clamp-2">{quote.text}</p>
+              </>
+            ) : (
+              <p className="text-xs text-[#667781] italic">Original message is no longer available</p>
+            )}
+          </button>
+        )}
+        
+        {isDeleted && (
+          <p className="flex items-center text-[#667781] text-[14px] italic leading-tight">
+            <Ban className="h-3 w-3 mr-1" />
+            This message was deleted
+          </p>
+        )}
+        
+        {!isDeleted && contentType === 'text' && (
+          <p className="text-[#303030] text-[14px] leading-tight">
+            {mentionParts(content, mentions).map((part, index) => part.mention ? (
+              <span
+                key={index}
+                className={cn('font-medium text-[#128c7e]', part.mention.mine && 'bg-[#25d366]/20 rounded px-0.5')}
+              >
+                {part.text}
+              </span>
+            ) : (
+              <React.Fragment key={index}>{part.text}</React.Fragment>
+            ))}
+          </p>
         )}
         
-        {contentType === 'image' && (
+        {!isDeleted && contentType === 'image' && (
           <div className="mb-2 rounded-lg overflow-hidden">
             <img src={content} alt="Shared content" className="w-full" />
           </div>
         )}
         
-        {contentType === 'file' && (
+        {!isDeleted && contentType === 'file' && (
           <div className="flex items-center p-2 bg-white/90 rounded border border-gray-200">
             <div className="mr-2 text-[#34B7F1]">
               <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -63,15 +299,56 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         )}
         
         <div className="flex justify-end items-center space-x-1 -mb-1 -mr-0.5 mt-0.5">
+          {isPinned && !isDeleted && <Pin className="h-2.5 w-2.5 text-[#667781]" />}
+          {isStarred && !isDeleted && <Star className="h-2.5 w-2.5 text-[#667781] fill-current" />}
+          {isEdited && !isDeleted && (
+            <button
+              type="button"
+              onClick={onShowHistory}
+              title="Show edit history"
+              className="text-[10px] text-[#667781] italic leading-none hover:underline"
+            >
+              edited
+            </button>
+          )}
           <span className="text-[10px] text-[#667781] leading-none">
             {format(timestamp, 'h:mm a')}
           </span>
-          {isOwn && (
-            isRead 
-              ? <CheckCheck className="h-3 w-3 text-[#4fc3f7]" /> 
-              : <Check className="h-3 w-3 text-[#667781]" />
+          {isOwn && !isDeleted && (
+            <span title={isGroup && receipt
+              ? `Read by ${receipt.read} of ${receipt.total}, delivered to ${receipt.delivered}`
+              : status}>
+              {status === 'read' && <CheckCheck className="h-3 w-3 text-[#4fc3f7]" />}
+              {status === 'delivered' && <CheckCheck className="h-3 w-3 text-[#667781]" />}
+              {status === 'sent' && <Check className="h-3 w-3 text-[#667781]" />}
+            </span>
           )}
         </div>
+        
+        {!isDeleted && reactions.length > 0 && (
+          <TooltipProvider>
+            <div className={cn('absolute -bottom-4 flex space-x-1', isOwn ? 'right-2' : 'left-2')}>
+              {reactions.map(reaction => (
+                <Tooltip key={reaction.emoji}>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="button"
+                      onClick={() => onToggleReaction?.(reaction.emoji)}
+                      className={cn(
+                        'flex items-center px-1.5 rounded-full text-xs bg-white border shadow-sm',
+                        reaction.mine ? 'border-[#25d366]' : 'border-gray-200'
+                      )}
+                    >
+                      <span>{reaction.emoji}</span>
+                      {reaction.count > 1 && <span className="ml-0.5 text-[#667781]">{reaction.count}</span>}
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent>{reaction.users.join(', ')}</TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+          </TooltipProvider>
+        )}
       </div>
     </div>
   );
@@ -1,15 +1,17 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useAuth } from '@/lib/useAuth';
 import { useWebSocket, useWebSocketEvent } from '@/hooks/use-websocket';
+import { sendChatMessage } from '@/lib/socket';
 import { ChatItem, Message } from '@/types';
 import { useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
 
 interface ChatContextType {
   selectedChatId: string | null;
   selectChat: (chatId: string) => void;
   chats: ChatItem[];
   messages: Record<string, Message[]>;
-  sendMessage: (chatId: string, content: string, contentType?: string) => boolean;
+  sendMessage: (chatId: string, content: string, contentType?: string) => Promise<Message>;
   unreadCounts: Record<string, number>;
   markChatAsRead: (chatId: string) => void;
   isInitialized: boolean;
@@ -19,7 +21,7 @@ const ChatContext = createContext<ChatContextType | null>(null);
 
 export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { userProfile } = useAuth();
-  const { isConnected, messages: wsMessages, sendMessage: sendWsMessage } = useWebSocket();
+  const { isConnected, messages: wsMessages } = useWebSocket();
   const queryClient = useQueryClient();
   
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
@@ -63,29 +65,21 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   });
   
   // Handle status changes
-  useWebSocketEvent('new_status', () => {
+  const refreshStatuses = () => {
     // Invalidate status queries
     queryClient.invalidateQueries({ queryKey: ['/api/statuses'] });
     if (userProfile?.id) {
       queryClient.invalidateQueries({ queryKey: [`/api/users/${userProfile.id}/statuses`] });
     }
-  });
+  };
+  useWebSocketEvent('new_status', refreshStatuses);
+  useWebSocketEvent('statuses_expired', refreshStatuses);
   
-  // Send a message
+  // Send a message over the socket; resolves once the server has stored it
   const sendMessage = (chatId: string, content: string, contentType = 'text') => {
-    if (!userProfile) return false;
-    
-    // Send via WebSocket for real-time updates
-    const success = sendWsMessage({
-      type: 'new_message',
-      chatId,
-      senderId: userProfile.id,
-      content,
-      contentType,
-      timestamp: new Date().toISOString()
-    });
+    if (!userProfile) return Promise.reject(new Error('User not logged in'));
     
-    return success;
+    return sendChatMessage(chatId, content, contentType);
   };
   
   // Mark a chat as read
@@ -95,7 +89,10 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       [chatId]: 0
     }));
     
-    // If we had an API for this, we would call it here
+    // Move our read watermark to the newest message
+    apiRequest('POST', `/api/chats/${chatId}/read`, {})
+      .then(() => queryClient.invalidateQueries({ queryKey: [`/api/chats/${chatId}/reads`] }))
+      .catch(error => console.error('Error marking chat as read:', error));
   };
   
   const selectChat = (chatId: string) => {
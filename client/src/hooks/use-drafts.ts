@@ -0,0 +1,114 @@
+import { useEffect, useCallback, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { MessageDraft } from '@/types';
+import { useWebSocketEvent } from '@/hooks/use-websocket';
+import { apiRequest } from '@/lib/queryClient';
+
+// Save the composer once the user stops typing for this long
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+const DRAFTS_KEY = '/api/drafts';
+
+// The user's unsent drafts by chat id, kept current by draft_changed events from any of their devices
+export const useDrafts = (enabled: boolean) => {
+  const queryClient = useQueryClient();
+
+  const { data = [] } = useQuery<MessageDraft[]>({
+    queryKey: [DRAFTS_KEY],
+    enabled,
+  });
+
+  const handleDraftChanged = useCallback((event: { chatId: string; draft: MessageDraft | null }) => {
+    queryClient.setQueryData<MessageDraft[]>([DRAFTS_KEY], (previous = []) => [
+      ...previous.filter(draft => draft.chatId !== event.chatId),
+      ...(event.draft ? [event.draft] : [])
+    ]);
+  }, [queryClient]);
+  useWebSocketEvent('draft_changed', handleDraftChanged);
+
+  const byChat: Record<string, string> = {};
+  data.forEach(draft => {
+    byChat[draft.chatId] = draft.content;
+  });
+  return byChat;
+};
+
+// Keep one chat's composer text in step with its server draft: restore it when the chat opens,
+// save it after a pause in typing, and take edits from other devices while nothing is typed here.
+// Nothing is saved while `paused` (e.g. the composer holds a message being edited); afterwards
+// the draft comes back.
+export const useDraft = (chatId: string, text: string, setText: (text: string) => void, paused = false) => {
+  const { data: drafts, isSuccess } = useQuery<MessageDraft[]>({ queryKey: [DRAFTS_KEY] });
+  const serverText = drafts?.find(draft => draft.chatId === chatId)?.content ?? '';
+
+  // The draft as last saved or loaded; null until this chat's draft is restored
+  const synced = useRef<string | null>(null);
+  const pending = useRef<{ chatId: string; text: string } | null>(null);
+  const saveTimer = useRef<number | null>(null);
+  // Chat the composer text belongs to; it lags one render behind a chat switch
+  const textChatId = useRef(chatId);
+  const currentText = useRef(text);
+  currentText.current = text;
+
+  const flush = useCallback(() => {
+    if (saveTimer.current) {
+      window.clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    if (!pending.current) return;
+
+    const { chatId, text } = pending.current;
+    pending.current = null;
+    const request = text.trim()
+      ? apiRequest('PUT', `/api/chats/${chatId}/draft`, { content: text })
+      : apiRequest('DELETE', `/api/chats/${chatId}/draft`);
+    request.catch(error => console.error('Error saving draft:', error));
+  }, []);
+
+  // Save what is pending for the old chat when switching chats or closing the view
+  useEffect(() => {
+    synced.current = null;
+    return flush;
+  }, [chatId, flush]);
+
+  useEffect(() => {
+    if (!isSuccess) return;
+
+    if (synced.current === null || currentText.current === synced.current) {
+      setText(serverText);
+    }
+    synced.current = serverText;
+  }, [chatId, isSuccess, serverText, setText]);
+
+  // Bring the draft back once the composer is free again
+  const wasPaused = useRef(paused);
+  useEffect(() => {
+    if (wasPaused.current && !paused && synced.current !== null) {
+      setText(synced.current);
+    }
+    wasPaused.current = paused;
+  }, [paused, setText]);
+
+  useEffect(() => {
+    if (textChatId.current !== chatId) {
+      textChatId.current = chatId;
+      return;
+    }
+    if (paused || synced.current === null) return;
+
+    if (saveTimer.current) {
+      window.clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    if (text === synced.current) {
+      pending.current = null;
+      return;
+    }
+
+    pending.current = { chatId, text };
+    saveTimer.current = window.setTimeout(() => {
+      synced.current = text;
+      flush();
+    }, DRAFT_SAVE_DELAY_MS);
+  }, [chatId, text, paused, flush]);
+};
@@ -0,0 +1,41 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, isToday, isYesterday } from 'date-fns';
+import { Presence } from '@/types';
+import { useWebSocketEvent } from '@/hooks/use-websocket';
+
+// Online state and last-seen time for a set of users, kept current by presence_changed events
+export const usePresence = (userIds: number[]) => {
+  const queryClient = useQueryClient();
+  const ids = Array.from(new Set(userIds)).sort((a, b) => a - b);
+  const queryKey = [`/api/presence?userIds=${ids.join(',')}`];
+
+  const { data = [] } = useQuery<Presence[]>({
+    queryKey,
+    enabled: ids.length > 0,
+  });
+
+  const handlePresenceChanged = useCallback((event: Presence) => {
+    queryClient.setQueryData<Presence[]>(queryKey, (previous) =>
+      previous?.map(presence => presence.userId === event.userId ? event : presence)
+    );
+  }, [queryClient, queryKey[0]]);
+  useWebSocketEvent('presence_changed', handlePresenceChanged);
+
+  const byUser: Record<number, Presence> = {};
+  data.forEach(presence => {
+    byUser[presence.userId] = presence;
+  });
+  return byUser;
+};
+
+// "last seen today at 3:04 PM", "last seen yesterday at ...", "last seen Mar 3 at ..."
+export const formatLastSeen = (lastSeenAt?: Date | string | null) => {
+  if (!lastSeenAt) return '';
+
+  const date = new Date(lastSeenAt);
+  const time = format(date, 'h:mm a');
+  if (isToday(date)) return `last seen today at ${time}`;
+  if (isYesterday(date)) return `last seen yesterday at ${time}`;
+  return `last seen ${format(date, 'MMM d')} at ${time}`;
+};
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { onSocketMessage, sendSocketMessage } from '@/lib/socket';
+
+// Same as the server: drop an indicator that wasn't refreshed in time
+const TYPING_EXPIRY_MS = 6000;
+// Repeat typing_start this often while the user keeps typing
+const TYPING_REFRESH_MS = 3000;
+// Send typing_stop after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+
+// Usernames currently typing, per chat id
+export type TypingByChat = Record<string, string[]>;
+
+// Track `typing` events from the server for every chat
+export const useTypingUsers = () => {
+  const [typing, setTyping] = useState<Record<string, Record<number, string>>>({});
+  const expiryTimers = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    const timers = expiryTimers.current;
+
+    const setUserTyping = (chatId: string, userId: number, username: string | null) => {
+      setTyping(prev => {
+        const { [userId]: _, ...others } = prev[chatId] || {};
+        return {
+          ...prev,
+          [chatId]: username === null ? others : { ...others, [userId]: username }
+        };
+      });
+    };
+
+    const unsubscribe = onSocketMessage((message) => {
+      if (message.type !== 'typing') return;
+
+      const { chatId, userId, username, isTyping } = message;
+      const key = `${chatId}:${userId}`;
+      window.clearTimeout(timers.get(key));
+      timers.delete(key);
+
+      if (!isTyping) {
+        setUserTyping(chatId, userId, null);
+        return;
+      }
+
+      setUserTyping(chatId, userId, username || 'Someone');
+      timers.set(key, window.setTimeout(() => {
+        timers.delete(key);
+        setUserTyping(chatId, userId, null);
+      }, TYPING_EXPIRY_MS));
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(timer => window.clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const byChat: TypingByChat = {};
+  Object.entries(typing).forEach(([chatId, users]) => {
+    byChat[chatId] = Object.values(users);
+  });
+  return byChat;
+};
+
+// Send typing_start/typing_stop frames for the composer of one chat
+export const useTypingNotifier = (chatId: string) => {
+  const lastStartAt = useRef(0);
+  const idleTimer = useRef<number | null>(null);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimer.current) {
+      window.clearTimeout(idleTimer.current);
+      idleTimer.current = null;
+    }
+    if (lastStartAt.current === 0) return;
+
+    lastStartAt.current = 0;
+    sendSocketMessage({ type: 'typing_stop', chatId });
+  }, [chatId]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastStartAt.current >= TYPING_REFRESH_MS) {
+      lastStartAt.current = now;
+      sendSocketMessage({ type: 'typing_start', chatId });
+    }
+
+    if (idleTimer.current) {
+      window.clearTimeout(idleTimer.current);
+    }
+    idleTimer.current = window.setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [chatId, stopTyping]);
+
+  // Stop when switching chats or closing the view
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { notifyTyping, stopTyping };
+};
+
+// "Ann is typing…", "Ann and Bob are typing…", "Ann and 2 others are typing…"
+export const formatTyping = (usernames: string[]) => {
+  if (usernames.length === 0) return '';
+  if (usernames.length === 1) return `${usernames[0]} is typing…`;
+  if (usernames.length === 2) return `${usernames[0]} and ${usernames[1]} are typing…`;
+  return `${usernames[0]} and ${usernames.length - 1} others are typing…`;
+};
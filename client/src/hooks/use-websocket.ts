@@ -11,9 +11,9 @@ export const useWebSocket = () => {
   useEffect(() => {
     // Initialize WebSocket when user is available
     if (userProfile?.id) {
-      console.log('Initializing WebSocket with userId:', userProfile.id);
+      console.log('Initializing WebSocket for user:', userProfile.id);
       try {
-        initSocket(userProfile.id);
+        initSocket();
         
         // Register status callback
         const unsubscribeStatus = onSocketStatus(setIsConnected);
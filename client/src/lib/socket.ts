@@ -1,25 +1,75 @@
-import { WebSocketMessage } from '@/types';
+import { WebSocketMessage, Message } from '@/types';
+import { apiRequest } from '@/lib/queryClient';
+
+// Close code the server uses when the upgrade is not authenticated
+export const WS_CLOSE_UNAUTHORIZED = 4401;
+
+// Reconnect attempts after which sends still waiting for an ack are failed; reconnecting goes on
+const MAX_SEND_RETRIES = 5;
 
 let socket: WebSocket | null = null;
+// Bumped by initSocket and closeSocket, so an init still waiting for its token can tell it was superseded
+let socketGeneration = 0;
+// Set from the server's auth_success frame
+let socketUserId: number | null = null;
 let socketReconnectTimer: number | null = null;
+// Reconnect attempts since the socket was last open
+let reconnectAttempts = 0;
 const messageCallbacks: ((message: WebSocketMessage) => void)[] = [];
 const statusCallbacks: ((status: boolean) => void)[] = [];
 
+// A send waiting for the server's ack
+interface PendingSend {
+  frame: WebSocketMessage;
+  resolve: (message: Message) => void;
+  reject: (error: Error) => void;
+}
+
+// Sends not yet acked, keyed by clientMessageId
+const pendingSends = new Map<string, PendingSend>();
+
+// Fetch a short-lived token that authenticates the upgrade request
+const fetchSocketToken = async (): Promise<string> => {
+  const res = await apiRequest('POST', '/api/ws-token');
+  const { token } = await res.json();
+  return token;
+};
+
 // Initialize WebSocket connection
-export const initSocket = (userId: number) => {
+export const initSocket = async () => {
+  const generation = ++socketGeneration;
+  
+  // Detach the old socket first so its close doesn't schedule a reconnect
   if (socket) {
-    socket.close();
+    const previous = socket;
+    socket = null;
+    previous.close();
   }
   
+  let token: string;
+  try {
+    token = await fetchSocketToken();
+  } catch (error) {
+    if (generation !== socketGeneration) return null;
+    console.error('Error fetching WebSocket token:', error);
+    scheduleReconnect();
+    return null;
+  }
+  
+  // Closed or re-initialized while the token was on its way
+  if (generation !== socketGeneration) return null;
+  
   const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${protocol}//${window.location.host}/ws`;
+  const wsUrl = `${protocol}//${window.location.host}/ws?token=${encodeURIComponent(token)}`;
   
-  socket = new WebSocket(wsUrl);
+  const ws = new WebSocket(wsUrl);
+  socket = ws;
   
-  socket.onopen = () => {
-    // Authenticate with userId
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({ type: 'auth', userId }));
+  // Handlers ignore a socket that has since been replaced or closed
+  ws.onopen = () => {
+    if (socket !== ws) return;
+    
+    if (ws.readyState === WebSocket.OPEN) {
       callStatusCallbacks(true);
     }
     
@@ -28,34 +78,66 @@ export const initSocket = (userId: number) => {
       window.clearTimeout(socketReconnectTimer);
       socketReconnectTimer = null;
     }
+    reconnectAttempts = 0;
+    
+    // Retry unacked sends; the clientMessageId stops the server storing them twice
+    pendingSends.forEach(({ frame }) => sendSocketMessage(frame));
   };
   
-  socket.onmessage = (event) => {
+  ws.onmessage = (event) => {
+    if (socket !== ws) return;
+    
     try {
       const message = JSON.parse(event.data);
+      if (message.type === 'auth_success') {
+        socketUserId = message.userId;
+      }
+      settlePendingSend(message);
+      acknowledgeDelivery(message);
       callMessageCallbacks(message);
     } catch (error) {
       console.error('Error parsing WebSocket message:', error);
     }
   };
   
-  socket.onclose = () => {
+  ws.onclose = (event) => {
+    if (socket !== ws) return;
+    
     callStatusCallbacks(false);
     
-    // Reconnect after delay
-    if (!socketReconnectTimer) {
-      socketReconnectTimer = window.setTimeout(() => {
-        initSocket(userId);
-      }, 3000);
+    // A rejected session won't fix itself by retrying
+    if (event.code === WS_CLOSE_UNAUTHORIZED) {
+      console.error('WebSocket rejected: not authenticated');
+      rejectPendingSends(new Error('Not authenticated'));
+      return;
     }
+    
+    scheduleReconnect();
   };
   
-  socket.onerror = (error) => {
+  ws.onerror = (error) => {
+    if (socket !== ws) return;
+    
     console.error('WebSocket error:', error);
-    socket?.close();
+    ws.close();
   };
   
-  return socket;
+  return ws;
+};
+
+// Reconnect after delay
+const scheduleReconnect = () => {
+  if (!socketReconnectTimer) {
+    // Sends can't wait forever; fail them once the socket has stayed down this long
+    if (++reconnectAttempts > MAX_SEND_RETRIES) {
+      rejectPendingSends(new Error('Could not reach the server'));
+    }
+    
+    socketReconnectTimer = window.setTimeout(() => {
+      socketReconnectTimer = null;
+      initSocket();
+    }, 3000);
+  }
 };
 
 // Send message through WebSocket
@@ -67,11 +149,62 @@ export const sendSocketMessage = (message: WebSocketMessage) => {
   return false;
 };
 
+// crypto.randomUUID only exists in secure contexts (https or localhost); getRandomValues works anywhere
+const newClientMessageId = () => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Send a chat message over the socket; resolves with the stored message once acked.
+// While disconnected the send waits and goes out when the socket reopens.
+export const sendChatMessage = (chatId: string, content: string, contentType = 'text', replyToId?: number): Promise<Message> => {
+  const clientMessageId = newClientMessageId();
+  const frame = { type: 'send_message', clientMessageId, chatId, content, contentType, replyToId };
+  
+  return new Promise((resolve, reject) => {
+    pendingSends.set(clientMessageId, { frame, resolve, reject });
+    sendSocketMessage(frame);
+  });
+};
+
+// Fail every send still waiting for an ack
+const rejectPendingSends = (error: Error) => {
+  pendingSends.forEach(({ reject }) => reject(error));
+  pendingSends.clear();
+};
+
+// Resolve or reject the send an ack/error frame refers to
+const settlePendingSend = (message: WebSocketMessage) => {
+  if (message.type !== 'message_ack' && message.type !== 'message_error') return;
+  
+  const pending = pendingSends.get(message.clientMessageId);
+  if (!pending) return;
+  
+  pendingSends.delete(message.clientMessageId);
+  if (message.type === 'message_ack') {
+    pending.resolve(message.message);
+  } else {
+    pending.reject(new Error(message.error));
+  }
+};
+
+// Tell the server a message from someone else reached this device
+const acknowledgeDelivery = (message: WebSocketMessage) => {
+  if (message.type !== 'new_message' || message.message?.senderId === socketUserId) return;
+  
+  sendSocketMessage({ type: 'message_delivered', chatId: message.chatId, messageId: message.message.id });
+};
+
 // Close WebSocket connection
 export const closeSocket = () => {
+  socketGeneration++;
+  
   if (socket) {
-    socket.close();
+    const previous = socket;
     socket = null;
+    previous.close();
   }
   
   // Clear reconnect timer
@@ -79,6 +212,10 @@ export const closeSocket = () => {
     window.clearTimeout(socketReconnectTimer);
     socketReconnectTimer = null;
   }
+  reconnectAttempts = 0;
+  
+  // Fail sends that can no longer be acked
+  rejectPendingSends(new Error('WebSocket closed'));
   
   // Clear all callbacks
   messageCallbacks.length = 0;
@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// One-line text of a message for quote blocks and message lists
+export function summarize(content: string, contentType: string | null | undefined, isDeleted: boolean) {
+  if (isDeleted) return "This message was deleted"
+  if (contentType === "image") return "Photo"
+  if (contentType === "file") return "File"
+  return content
+}
+
+// Chat id of the DM between two users; the server stores it with the lower id first
+export function directChatId(user1Id: number, user2Id: number) {
+  return user1Id < user2Id ? `user_${user1Id}_${user2Id}` : `user_${user2Id}_${user1Id}`
+}
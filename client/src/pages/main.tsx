@@ -1,15 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useLocation } from 'wouter';
 import { useAuth } from '@/lib/useAuth';
-import { useWebSocket } from '@/hooks/use-websocket';
+import { useWebSocket, useWebSocketEvent } from '@/hooks/use-websocket';
+import { useToast } from '@/hooks/use-toast';
+import { useTypingUsers } from '@/hooks/use-typing';
+import { usePresence } from '@/hooks/use-presence';
+import { useDrafts } from '@/hooks/use-drafts';
 import ChatSidebar from '@/components/ChatSidebar';
 import ChatView from '@/components/ChatView';
 import ProfileView from '@/components/ProfileView';
 import StatusViewer from '@/components/StatusViewer';
 import CreateGroupModal from '@/components/CreateGroupModal';
 import CreateStatusModal from '@/components/CreateStatusModal';
+import StarredMessagesDialog from '@/components/StarredMessagesDialog';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { ChatItem, Status } from '@/types';
+import { ChatItem, Message, Status } from '@/types';
+import { summarize, directChatId } from '@/lib/utils';
 
 // Welcome screen component shown when no chat is selected
 const WelcomeScreen: React.FC = () => {
@@ -34,6 +40,9 @@ const MainPage: React.FC = () => {
   const [_, setLocation] = useLocation();
   const queryClient = useQueryClient();
   const { isConnected } = useWebSocket();
+  const typingByChat = useTypingUsers();
+  const draftsByChat = useDrafts(!!userProfile?.id);
+  const { toast } = useToast();
   
   // UI state
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
@@ -44,6 +53,9 @@ const MainPage: React.FC = () => {
   const [selectedStatusId, setSelectedStatusId] = useState<number | null>(null);
   const [showCreateGroup, setShowCreateGroup] = useState(false);
   const [showCreateStatus, setShowCreateStatus] = useState(false);
+  const [showStarred, setShowStarred] = useState(false);
+  // Message to scroll to once its chat is open, e.g. a search result
+  const [focusedMessageId, setFocusedMessageId] = useState<number | null>(null);
   
   // Get all chats for the user
   const { data: conversations = [], isLoading: isLoadingChats } = useQuery({
@@ -70,18 +82,26 @@ const MainPage: React.FC = () => {
     }
   }, [userProfile, loading, setLocation]);
   
+  // Presence of everyone we have a DM with
+  const presence = usePresence(
+    conversations.map((conv: any) => conv.otherUser?.id).filter(Boolean)
+  );
+  
   // Format conversations into chat items
   const chatItems: ChatItem[] = [
     // Individual chats
     ...conversations.map((conv: any) => ({
-      id: `user_${conv.user1Id}_${conv.user2Id}`,
+      id: directChatId(conv.user1Id, conv.user2Id),
       type: 'user',
       name: conv.otherUser?.username || 'Unknown User',
       avatar: conv.otherUser?.profilePicture,
       lastMessage: conv.lastMessage?.content,
       lastMessageTime: conv.lastMessageAt,
       unreadCount: 0,
-      isOnline: true, // TODO: implement online status tracking
+      isOnline: !!presence[conv.otherUser?.id]?.isOnline,
+      lastSeenAt: presence[conv.otherUser?.id]?.lastSeenAt,
+      typingUsers: typingByChat[directChatId(conv.user1Id, conv.user2Id)],
+      draft: draftsByChat[directChatId(conv.user1Id, conv.user2Id)],
     })),
     // Group chats
     ...groups.map((group: any) => ({
@@ -91,12 +111,37 @@ const MainPage: React.FC = () => {
       avatar: group.profilePicture,
       lastMessage: '', // TODO: implement last message for groups
       unreadCount: 0,
+      typingUsers: typingByChat[`group_${group.id}`],
+      draft: draftsByChat[`group_${group.id}`],
     })),
   ];
   
   // Find the selected chat data
   const selectedChat = chatItems.find(chat => chat.id === selectedChatId);
   
+  // Someone mentioned us; the open chat already shows it
+  const handleMentioned = useCallback((event: { chatId: string; senderName?: string; message: Message }) => {
+    if (event.chatId === selectedChatId) return;
+    
+    const chatName = chatItems.find(chat => chat.id === event.chatId)?.name;
+    toast({
+      title: `${event.senderName || 'Someone'} mentioned you${chatName ? ` in ${chatName}` : ''}`,
+      description: summarize(event.message.content, event.message.contentType, event.message.isDeleted),
+    });
+  }, [selectedChatId, chatItems, toast]);
+  useWebSocketEvent('mentioned', handleMentioned);
+  
+  // A scheduled message couldn't go out when its time came
+  const handleScheduledFailed = useCallback((event: { chatId: string; error: string }) => {
+    const chatName = chatItems.find(chat => chat.id === event.chatId)?.name;
+    toast({
+      title: `Scheduled message${chatName ? ` to ${chatName}` : ''} was not sent`,
+      description: event.error,
+      variant: 'destructive',
+    });
+  }, [chatItems, toast]);
+  useWebSocketEvent('scheduled_message_failed', handleScheduledFailed);
+  
   // Handle chat selection
   const handleChatSelect = (chatId: string) => {
     setSelectedChatId(chatId);
@@ -110,6 +155,11 @@ const MainPage: React.FC = () => {
     }
   };
   
+  const handleMessageSelect = (chatId: string, messageId: number) => {
+    handleChatSelect(chatId);
+    setFocusedMessageId(messageId);
+  };
+  
   // Handle back button on mobile
   const handleBackToList = () => {
     setShowChatList(true);
@@ -181,6 +231,8 @@ const MainPage: React.FC = () => {
         <div className={`${showChatList ? 'block' : 'hidden'} md:block w-full md:w-96 bg-white border-r border-netgray-200 flex flex-col h-full`}>
           <ChatSidebar
             onChatSelect={handleChatSelect}
+            onMessageSelect={handleMessageSelect}
+            chatItems={chatItems}
             onProfileClick={() => {
               setShowProfile(true);
               setShowChatView(false);
@@ -211,6 +263,7 @@ const MainPage: React.FC = () => {
               setShowStatusViewer(false);
             }}
             onNewGroupClick={() => setShowCreateGroup(true)}
+            onStarredClick={() => setShowStarred(true)}
             onSettingsClick={() => {
               // Show settings (for now, use profile)
               setShowProfile(true);
@@ -232,6 +285,8 @@ const MainPage: React.FC = () => {
               chatId={selectedChatId}
               onBackClick={handleBackToList}
               chatData={selectedChat}
+              focusMessageId={focusedMessageId}
+              onFocused={() => setFocusedMessageId(null)}
             />
           </div>
         )}
@@ -280,6 +335,13 @@ const MainPage: React.FC = () => {
         onClose={() => setShowCreateStatus(false)}
       />
       
+      <StarredMessagesDialog
+        isOpen={showStarred}
+        chats={chatItems}
+        onOpenChat={handleChatSelect}
+        onClose={() => setShowStarred(false)}
+      />
+      
       {/* Connection status indicator */}
       {!isConnected && (
         <div className="fixed bottom-4 left-4 bg-red-500 text-white px-3 py-1 rounded-md shadow-md text-sm">
@@ -5,6 +5,14 @@ export interface User {
   profilePicture?: string;
   about?: string;
   createdAt: Date;
+  lastSeenAt?: Date | null;
+}
+
+// GET /api/presence and presence_changed events
+export interface Presence {
+  userId: number;
+  isOnline: boolean;
+  lastSeenAt: Date | null;
 }
 
 export interface Message {
@@ -16,6 +24,145 @@ export interface Message {
   timestamp: Date;
   isRead: boolean;
   isDeleted: boolean;
+  editedAt?: Date | null;
+  replyToId?: number | null;
+  // Preview of the quoted message; null when it no longer exists
+  replyTo?: ReplyPreview | null;
+  reactions?: ReactionSummary[];
+  // How many times the content was forwarded to get here; 0 for an original
+  forwardCount?: number;
+  forwardedManyTimes?: boolean;
+  mentions?: MessageMention[];
+  // When a disappearing message will be removed; null when it stays
+  expiresAt?: Date | null;
+}
+
+// An "@name" in a message's content; userId is null for "@all"
+export interface MessageMention {
+  userId: number | null;
+  offset: number;
+  length: number;
+}
+
+// A message in the user's starred list
+export interface StarredMessage extends Message {
+  starredAt: Date;
+}
+
+// A message pinned to the top of its chat
+export interface PinnedMessage extends Message {
+  pinnedAt: Date;
+  pinnedBy: number;
+}
+
+// What the user typed in a chat but hasn't sent, synced across their devices
+export interface MessageDraft {
+  id: number;
+  userId: number;
+  chatId: string;
+  content: string;
+  updatedAt: Date;
+}
+
+// A message its author queued to be sent later; only the author sees it
+export interface ScheduledMessage {
+  id: number;
+  senderId: number;
+  chatId: string;
+  content: string;
+  contentType: string;
+  replyToId: number | null;
+  sendAt: Date;
+  createdAt: Date;
+}
+
+// A message found by GET /api/search/messages, with the matching words highlighted
+export interface MessageSearchResult extends Message {
+  snippet: string;
+  highlights: { offset: number; length: number }[];
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchResult[];
+  hasMore: boolean;
+  cursors: { before: string | null };
+}
+
+// Reactions to a message with one emoji, as returned by the server
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  users: { id: number; username: string | null }[];
+}
+
+// Compact form of a quoted message, as attached to replies by the server
+export interface ReplyPreview {
+  id: number;
+  senderId: number;
+  senderName: string | null;
+  content: string;
+  contentType: string | null;
+  isDeleted: boolean;
+}
+
+// An earlier version of an edited message (GET /api/messages/:id/revisions)
+export interface MessageRevision {
+  id: number;
+  messageId: number;
+  content: string;
+  writtenAt: Date;
+  replacedAt: Date;
+}
+
+// One page of GET /api/messages/:chatId
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+  cursors: {
+    before: string | null;
+    after: string | null;
+  };
+}
+
+// A member's read watermark in a chat: everything up to this message is read
+export interface ChatRead {
+  id: number;
+  chatId: string;
+  userId: number;
+  lastReadMessageId: number;
+  lastReadTimestamp: Date;
+  readAt: Date;
+}
+
+// A member's delivery watermark: one of their sockets received everything up to this message
+export interface ChatDelivery {
+  id: number;
+  chatId: string;
+  userId: number;
+  lastDeliveredMessageId: number;
+  lastDeliveredTimestamp: Date;
+  deliveredAt: Date;
+}
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'read';
+
+// GET /api/messages/:id/receipts
+export interface MessageReceipts {
+  messageId: number;
+  readCount: number;
+  deliveredCount: number;
+  recipientCount: number;
+  members: { userId: number; status: DeliveryStatus; deliveredAt: Date | null; readAt: Date | null }[];
+}
+
+// Per-chat settings (GET /api/chats/:chatId/settings)
+export interface ChatSettings {
+  chatId: string;
+  messageRetentionDays: number | null;
+  // Disappearing-messages timer for new messages; null when off
+  disappearingSeconds: number | null;
 }
 
 export interface ChatGroup {
@@ -77,7 +224,10 @@ export interface ChatItem {
   lastMessageTime?: Date;
   unreadCount: number;
   isOnline?: boolean;
+  lastSeenAt?: Date | null;
   typingUsers?: string[];
+  // Unsent text the user left in this chat
+  draft?: string;
 }
 
 export interface WebSocketMessage {
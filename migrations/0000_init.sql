@@ -0,0 +1,64 @@
+CREATE TABLE "chat_groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"creator_id" integer NOT NULL,
+	"profile_picture" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "conversations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user1_id" integer NOT NULL,
+	"user2_id" integer NOT NULL,
+	"last_message_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "group_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"is_admin" boolean DEFAULT false,
+	"can_write" boolean DEFAULT true,
+	"joined_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sender_id" integer NOT NULL,
+	"chat_id" text NOT NULL,
+	"content" text NOT NULL,
+	"content_type" text DEFAULT 'text',
+	"timestamp" timestamp DEFAULT now(),
+	"is_read" boolean DEFAULT false,
+	"is_deleted" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE TABLE "status_views" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"status_id" integer NOT NULL,
+	"viewer_id" integer NOT NULL,
+	"viewed_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "statuses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"content_type" text DEFAULT 'image',
+	"caption" text,
+	"created_at" timestamp DEFAULT now(),
+	"expires_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"email" text NOT NULL,
+	"password" text NOT NULL,
+	"profile_picture" text,
+	"about" text DEFAULT 'Available',
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
@@ -0,0 +1,7 @@
+CREATE TABLE "chat_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chat_id" text NOT NULL,
+	"message_retention_days" integer,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "chat_settings_chat_id_unique" UNIQUE("chat_id")
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "chat_reads" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chat_id" text NOT NULL,
+	"user_id" integer NOT NULL,
+	"last_read_message_id" integer NOT NULL,
+	"last_read_timestamp" timestamp NOT NULL,
+	"read_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_reads_chat_user_idx" ON "chat_reads" USING btree ("chat_id","user_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "chat_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chat_id" text NOT NULL,
+	"user_id" integer NOT NULL,
+	"last_delivered_message_id" integer NOT NULL,
+	"last_delivered_timestamp" timestamp NOT NULL,
+	"delivered_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_deliveries_chat_user_idx" ON "chat_deliveries" USING btree ("chat_id","user_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "message_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"written_at" timestamp NOT NULL,
+	"replaced_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+CREATE INDEX "message_revisions_message_id_idx" ON "message_revisions" USING btree ("message_id");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "hidden_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"message_id" integer NOT NULL,
+	"hidden_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "hidden_messages_user_message_idx" ON "hidden_messages" USING btree ("user_id","message_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "reply_to_id" integer;
\ No newline at end of file
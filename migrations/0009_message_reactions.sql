@@ -0,0 +1,9 @@
+CREATE TABLE "message_reactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"emoji" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "message_reactions_message_user_emoji_idx" ON "message_reactions" USING btree ("message_id","user_id","emoji");
\ No newline at end of file
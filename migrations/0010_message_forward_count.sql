@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "forward_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
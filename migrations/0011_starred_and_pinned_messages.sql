@@ -0,0 +1,18 @@
+CREATE TABLE "pinned_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chat_id" text NOT NULL,
+	"message_id" integer NOT NULL,
+	"pinned_by" integer NOT NULL,
+	"pinned_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "starred_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"message_id" integer NOT NULL,
+	"starred_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "pinned_messages_message_idx" ON "pinned_messages" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "pinned_messages_chat_idx" ON "pinned_messages" USING btree ("chat_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "starred_messages_user_message_idx" ON "starred_messages" USING btree ("user_id","message_id");
\ No newline at end of file
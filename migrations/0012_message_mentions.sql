@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "mentions" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "chat_settings" ADD COLUMN "disappearing_seconds" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+CREATE INDEX "messages_expires_at_idx" ON "messages" USING btree ("expires_at");
\ No newline at end of file
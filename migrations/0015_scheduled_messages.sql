@@ -0,0 +1,13 @@
+CREATE TABLE "scheduled_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sender_id" integer NOT NULL,
+	"chat_id" text NOT NULL,
+	"content" text NOT NULL,
+	"content_type" text DEFAULT 'text',
+	"reply_to_id" integer,
+	"send_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "scheduled_messages_send_at_idx" ON "scheduled_messages" USING btree ("send_at");--> statement-breakpoint
+CREATE INDEX "scheduled_messages_sender_idx" ON "scheduled_messages" USING btree ("sender_id");
\ No newline at end of file
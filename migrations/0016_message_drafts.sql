@@ -0,0 +1,9 @@
+CREATE TABLE "message_drafts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"chat_id" text NOT NULL,
+	"content" text NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "message_drafts_user_chat_idx" ON "message_drafts" USING btree ("user_id","chat_id");
\ No newline at end of file
@@ -0,0 +1,49 @@
+-- DM chat ids were stored in whichever order the sender named the two users; store them lower id first
+CREATE FUNCTION pg_temp.canonical_chat_id(chat_id text) RETURNS text AS $$
+  SELECT CASE
+    WHEN m IS NULL THEN chat_id
+    WHEN m[1]::int <= m[2]::int THEN 'user_' || m[1]::int || '_' || m[2]::int
+    ELSE 'user_' || m[2]::int || '_' || m[1]::int
+  END
+  FROM (SELECT regexp_match(chat_id, '^(?:user_)?(\d+)_(\d+)$') AS m) AS parts
+$$ LANGUAGE sql IMMUTABLE;
+--> statement-breakpoint
+-- Where both spellings have a row under a unique key, keep the one furthest along
+DELETE FROM "chat_reads" AS r USING "chat_reads" AS other
+WHERE other."id" <> r."id"
+  AND other."user_id" = r."user_id"
+  AND pg_temp.canonical_chat_id(other."chat_id") = pg_temp.canonical_chat_id(r."chat_id")
+  AND (other."last_read_timestamp", other."last_read_message_id", r."id") > (r."last_read_timestamp", r."last_read_message_id", other."id");
+--> statement-breakpoint
+DELETE FROM "chat_deliveries" AS d USING "chat_deliveries" AS other
+WHERE other."id" <> d."id"
+  AND other."user_id" = d."user_id"
+  AND pg_temp.canonical_chat_id(other."chat_id") = pg_temp.canonical_chat_id(d."chat_id")
+  AND (other."last_delivered_timestamp", other."last_delivered_message_id", d."id") > (d."last_delivered_timestamp", d."last_delivered_message_id", other."id");
+--> statement-breakpoint
+DELETE FROM "chat_settings" AS s USING "chat_settings" AS other
+WHERE other."id" <> s."id"
+  AND pg_temp.canonical_chat_id(other."chat_id") = pg_temp.canonical_chat_id(s."chat_id")
+  AND (coalesce(other."updated_at", 'epoch'), s."id") > (coalesce(s."updated_at", 'epoch'), other."id");
+--> statement-breakpoint
+DELETE FROM "message_drafts" AS d USING "message_drafts" AS other
+WHERE other."id" <> d."id"
+  AND other."user_id" = d."user_id"
+  AND pg_temp.canonical_chat_id(other."chat_id") = pg_temp.canonical_chat_id(d."chat_id")
+  AND (coalesce(other."updated_at", 'epoch'), d."id") > (coalesce(d."updated_at", 'epoch'), other."id");
+--> statement-breakpoint
+UPDATE "messages" SET "chat_id" = pg_temp.canonical_chat_id("chat_id") WHERE "chat_id" <> pg_temp.canonical_chat_id("chat_id");
+--> statement-breakpoint
+UPDATE "chat_settings" SET "chat_id" = pg_temp.canonical_chat_id("chat_id") WHERE "chat_id" <> pg_temp.canonical_chat_id("chat_id");
+--> statement-breakpoint
+UPDATE "chat_reads" SET "chat_id" = pg_temp.canonical_chat_id("chat_id") WHERE "chat_id" <> pg_temp.canonical_chat_id("chat_id");
+--> statement-breakpoint
+UPDATE "chat_deliveries" SET "chat_id" = pg_temp.canonical_chat_id("chat_id") WHERE "chat_id" <> pg_temp.canonical_chat_id("chat_id");
+--> statement-breakpoint
+UPDATE "pinned_messages" SET "chat_id" = pg_temp.canonical_chat_id("chat_id") WHERE "chat_id" <> pg_temp.canonical_chat_id("chat_id");
+--> statement-breakpoint
+UPDATE "scheduled_messages" SET "chat_id" = pg_temp.canonical_chat_id("chat_id") WHERE "chat_id" <> pg_temp.canonical_chat_id("chat_id");
+--> statement-breakpoint
+UPDATE "message_drafts" SET "chat_id" = pg_temp.canonical_chat_id("chat_id") WHERE "chat_id" <> pg_temp.canonical_chat_id("chat_id");
+--> statement-breakpoint
+DROP FUNCTION pg_temp.canonical_chat_id(text);
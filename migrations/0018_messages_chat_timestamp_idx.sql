@@ -0,0 +1 @@
+CREATE INDEX "messages_chat_timestamp_id_idx" ON "messages" USING btree ("chat_id","timestamp","id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- One conversation per pair of users, lower id first; the oldest row takes the latest activity
+UPDATE "conversations" AS c SET "last_message_at" = pairs."latest"
+FROM (
+  SELECT min("id") AS "first_id", max("last_message_at") AS "latest"
+  FROM "conversations"
+  GROUP BY least("user1_id", "user2_id"), greatest("user1_id", "user2_id")
+  HAVING count(*) > 1
+) AS pairs
+WHERE c."id" = pairs."first_id";
+--> statement-breakpoint
+DELETE FROM "conversations" AS c USING "conversations" AS other
+WHERE other."id" < c."id"
+  AND least(other."user1_id", other."user2_id") = least(c."user1_id", c."user2_id")
+  AND greatest(other."user1_id", other."user2_id") = greatest(c."user1_id", c."user2_id");
+--> statement-breakpoint
+UPDATE "conversations" SET "user1_id" = "user2_id", "user2_id" = "user1_id" WHERE "user1_id" > "user2_id";
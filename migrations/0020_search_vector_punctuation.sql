@@ -0,0 +1,2 @@
+DROP INDEX "messages_content_search_idx";--> statement-breakpoint
+CREATE INDEX "messages_content_search_idx" ON "messages" USING gin (to_tsvector('simple', regexp_replace("content", '[[:punct:]]+', ' ', 'g')));
\ No newline at end of file
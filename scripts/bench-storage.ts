@@ -0,0 +1,68 @@
+import { performance } from "perf_hooks";
+import { MemStorage } from "../server/storage";
+
+// Times MemStorage lookups as the message table grows. With the secondary
+// indexes the per-lookup cost should stay roughly flat between checkpoints.
+// Usage: npm run bench:storage [-- <checkpoint> <checkpoint> ...]
+
+const CHECKPOINTS = process.argv.slice(2).map(Number).filter(n => n > 0);
+if (CHECKPOINTS.length === 0) CHECKPOINTS.push(10000, 100000, 300000);
+
+const USERS = 1000;
+const GROUPS = 100;
+const CHATS = 200;
+const LOOKUPS = 2000;
+
+function chatIdFor(n: number) {
+  return n % 2 === 0 ? `group_${(n % GROUPS) + 1}` : `${n % USERS + 1}_${(n * 7) % USERS + 1}`;
+}
+
+async function time(label: string, fn: (i: number) => Promise<unknown>) {
+  const start = performance.now();
+  for (let i = 0; i < LOOKUPS; i++) {
+    await fn(i);
+  }
+  const micros = ((performance.now() - start) * 1000) / LOOKUPS;
+  console.log(`  ${label.padEnd(28)} ${micros.toFixed(1).padStart(8)} µs/op`);
+}
+
+async function main() {
+  const storage = new MemStorage();
+
+  for (let i = 1; i <= USERS; i++) {
+    await storage.createUser({ username: `user${i}`, email: `user${i}@example.com`, password: "x" });
+  }
+  for (let i = 1; i <= GROUPS; i++) {
+    const group = await storage.createChatGroup({ name: `group${i}`, creatorId: i });
+    for (let j = 0; j < 20; j++) {
+      await storage.addGroupMember({ groupId: group.id, userId: ((i * 20 + j) % USERS) + 1 });
+    }
+  }
+  for (let i = 1; i < USERS; i++) {
+    await storage.createConversation({ user1Id: i, user2Id: i + 1 });
+  }
+
+  let created = 0;
+  for (const target of CHECKPOINTS.sort((a, b) => a - b)) {
+    // Page back from a message half way through the history
+    let cursor = { timestamp: new Date(), id: 0 };
+    while (created < target) {
+      const message = await storage.createMessage({ senderId: (created % USERS) + 1, chatId: chatIdFor(created % CHATS), content: `message ${created}` });
+      if (created === Math.floor(target / 2)) cursor = { timestamp: message.timestamp!, id: message.id };
+      created++;
+    }
+
+    console.log(`${created} messages`);
+    await time("getUserByEmail", i => storage.getUserByEmail(`user${(i % USERS) + 1}@example.com`));
+    await time("getUserByUsername", i => storage.getUserByUsername(`user${(i % USERS) + 1}`));
+    await time("getGroupMember", i => storage.getGroupMember((i % GROUPS) + 1, (i % USERS) + 1));
+    await time("getConversation", i => storage.getConversation((i % (USERS - 1)) + 2, (i % (USERS - 1)) + 1));
+    await time("getMessagesByChatId (latest)", i => storage.getMessagesByChatId(chatIdFor(i % CHATS)));
+    await time("getMessagesByChatId (before)", i => storage.getMessagesByChatId(chatIdFor(i % CHATS), { before: cursor }));
+  }
+}
+
+main().catch(error => {
+  console.error('Benchmark error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+import { type Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { type IncomingMessage } from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import bcrypt from "bcryptjs";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Body fields that name the acting user. They must match the session user.
+const ACTOR_FIELDS = ['senderId', 'creatorId', 'viewerId'] as const;
+
+// Socket tokens are only meant to bridge a fetch and the following upgrade
+const SOCKET_TOKEN_TTL = 60000; // 1 minute
+
+let sessionSecret = "litechat-dev-secret";
+let sessionParser: RequestHandler | null = null;
+
+// Setup session handling and the local (email + password) strategy
+export function setupAuth(app: Express) {
+  if (process.env.SESSION_SECRET) {
+    sessionSecret = process.env.SESSION_SECRET;
+  } else if (app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    // Keep sessions next to the data when a database is configured
+    store: pool
+      ? new PostgresSessionStore({ pool, createTableIfMissing: true })
+      : new MemoryStore({
+          checkPeriod: 86400000, // Prune expired entries daily
+        }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 86400000, // 7 days
+    },
+  };
+
+  sessionParser = session(sessionSettings);
+
+  app.set("trust proxy", 1);
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: 'email' }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email);
+        if (!user || !(await bcrypt.compare(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user simply ends the session
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
+
+// Reject unauthenticated requests and bodies that claim to act as someone else
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+
+  const body = req.body || {};
+  for (const field of ACTOR_FIELDS) {
+    if (body[field] !== undefined && Number(body[field]) !== req.user.id) {
+      return res.status(403).json({ message: `${field} does not match the authenticated user` });
+    }
+  }
+
+  next();
+}
+
+function signSocketPayload(payload: string) {
+  return createHmac("sha256", sessionSecret).update(payload).digest("base64url");
+}
+
+// Issue a short-lived token that lets a socket authenticate as this user
+export function issueSocketToken(userId: number) {
+  const expiresAt = Date.now() + SOCKET_TOKEN_TTL;
+  const payload = `${userId}.${expiresAt}`;
+  return { token: `${payload}.${signSocketPayload(payload)}`, expiresAt };
+}
+
+// Return the user id carried by a valid, unexpired socket token
+export function verifySocketToken(token: string): number | undefined {
+  const [userId, expiresAt, signature] = token.split(".");
+  if (!userId || !expiresAt || !signature) return undefined;
+
+  const expected = Buffer.from(signSocketPayload(`${userId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  if (parseInt(expiresAt) < Date.now()) return undefined;
+
+  return parseInt(userId);
+}
+
+// Resolve the user behind a WebSocket upgrade from a ?token= or the session cookie
+export async function authenticateUpgrade(req: IncomingMessage): Promise<number | undefined> {
+  const url = new URL(req.url || "/", "http://localhost");
+  const token = url.searchParams.get("token");
+  if (token) {
+    return verifySocketToken(token);
+  }
+
+  if (!sessionParser) return undefined;
+  const parser = sessionParser;
+
+  await new Promise<void>((resolve) => {
+    parser(req as Request, {} as Response, () => resolve());
+  });
+
+  const passportData = (req as Request).session as { passport?: { user?: number } } | undefined;
+  const userId = passportData?.passport?.user;
+  if (userId === undefined) return undefined;
+
+  // Sessions can outlive the account they belong to
+  const user = await storage.getUser(userId);
+  return user?.id;
+}
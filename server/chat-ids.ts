@@ -0,0 +1,34 @@
+// A chat is either a group ('group_<id>') or a DM between two users ('user_<id>_<id>')
+export type ChatRef =
+  | { type: 'group'; groupId: number }
+  | { type: 'direct'; userIds: [number, number] };
+
+export function parseChatId(chatId: string): ChatRef | null {
+  if (chatId.startsWith('group_')) {
+    const groupId = parseInt(chatId.replace('group_', ''));
+    return isNaN(groupId) ? null : { type: 'group', groupId };
+  }
+
+  // The client prefixes DM ids with 'user_'
+  const parts = chatId.replace(/^user_/, '').split('_');
+  if (parts.length !== 2) return null;
+
+  const user1Id = parseInt(parts[0]);
+  const user2Id = parseInt(parts[1]);
+  if (isNaN(user1Id) || isNaN(user2Id)) return null;
+
+  // Either order names the same DM; the lower id always comes first
+  return { type: 'direct', userIds: user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id] };
+}
+
+// The one id a DM is stored under, whichever order its users are given in
+export function directChatId(user1Id: number, user2Id: number) {
+  return user1Id < user2Id ? `user_${user1Id}_${user2Id}` : `user_${user2Id}_${user1Id}`;
+}
+
+// The stored spelling of a chat id from a client; ids that don't parse are left alone
+export function canonicalChatId(chatId: string) {
+  const chat = parseChatId(chatId);
+  if (!chat) return chatId;
+  return chat.type === 'group' ? `group_${chat.groupId}` : directChatId(...chat.userIds);
+}
@@ -0,0 +1,32 @@
+// Deployment settings read from the environment
+
+function envInt(name: string, fallback: number) {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = parseInt(value);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+export const retentionConfig = {
+  // Deployment-wide message lifetime; chats can override it. 0 (the default) keeps messages
+  // until they are deleted or their chat's disappearing-messages timer runs out.
+  messageDays: envInt('MESSAGE_RETENTION_DAYS', 0),
+  // How long a status stays up after it is posted
+  statusDays: envInt('STATUS_RETENTION_DAYS', 3),
+};
+
+export const editConfig = {
+  // How long after sending a message its sender may still edit it. 0 allows edits at any time.
+  windowMinutes: envInt('MESSAGE_EDIT_WINDOW_MINUTES', 15),
+  // Same for deleting it for everyone; group admins are not limited
+  deleteWindowMinutes: envInt('MESSAGE_DELETE_WINDOW_MINUTES', 2880),
+};
+
+export const forwardConfig = {
+  // Forwarded messages are labelled "forwarded many times" once their forward count passes this
+  manyTimesThreshold: envInt('FORWARDED_MANY_TIMES_THRESHOLD', 4),
+};
@@ -0,0 +1,23 @@
+import path from "path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+// The handle drizzle passes to a transaction callback
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+// Only connect when a database is configured; MemStorage is used otherwise
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db: Database | null = pool ? drizzle(pool, { schema }) : null;
+
+// Apply the generated SQL migrations in ./migrations
+export async function runMigrations() {
+  if (!db) return;
+
+  await migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+}
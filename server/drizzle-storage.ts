@@ -0,0 +1,691 @@
+import { and, asc, desc, eq, gt, inArray, isNotNull, isNull, lt, lte, ne, notExists, notInArray, or, sql, SQL } from "drizzle-orm";
+import {
+  users, messages, searchVector, chatGroups, groupMembers, statuses, statusViews, conversations, chatSettings, chatReads, chatDeliveries, messageRevisions, hiddenMessages, messageReactions, starredMessages, pinnedMessages, scheduledMessages, messageDrafts,
+  User, InsertUser,
+  Message, InsertMessage, MessageMention,
+  ChatGroup, InsertChatGroup,
+  GroupMember, InsertGroupMember,
+  Status, InsertStatus,
+  StatusView, InsertStatusView,
+  Conversation, InsertConversation,
+  ChatSettings, InsertChatSettings,
+  ChatRead,
+  ChatDelivery,
+  MessageRevision,
+  MessageReaction,
+  StarredMessage,
+  PinnedMessage,
+  ScheduledMessage, InsertScheduledMessage,
+  MessageDraft
+} from "@shared/schema";
+import type { IStorage, PurgeScope, MessageCursor, MessageQuery, MessagePage, MessageSearch } from "./storage";
+import type { Database, Transaction } from "./db";
+import { retentionConfig } from "./config";
+
+// Keyset conditions over the (timestamp, id) timeline order
+function olderThan(cursor: MessageCursor) {
+  return or(
+    lt(messages.timestamp, cursor.timestamp),
+    and(eq(messages.timestamp, cursor.timestamp), lt(messages.id, cursor.id))
+  )!;
+}
+
+function newerThan(cursor: MessageCursor) {
+  return or(
+    gt(messages.timestamp, cursor.timestamp),
+    and(eq(messages.timestamp, cursor.timestamp), gt(messages.id, cursor.id))
+  )!;
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database | Transaction) {}
+
+  // Nested calls become savepoints inside the outer transaction
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(tx => fn(new DrizzleStorage(tx)));
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(userData).returning();
+    return user;
+  }
+
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(userData).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  // Message methods
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessagesByIds(ids: number[], viewerId?: number): Promise<Message[]> {
+    if (ids.length === 0) return [];
+    const byId = inArray(messages.id, ids);
+    return this.db.select().from(messages)
+      .where(viewerId === undefined ? byId : and(byId, this.notHiddenFrom(viewerId)));
+  }
+
+  async getMessageByClientId(senderId: number, clientMessageId: string): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages)
+      .where(and(eq(messages.senderId, senderId), eq(messages.clientMessageId, clientMessageId)));
+    return message;
+  }
+
+  // Messages the viewer has not deleted for themselves
+  private notHiddenFrom(viewerId: number): SQL {
+    return notExists(
+      this.db.select({ id: hiddenMessages.id }).from(hiddenMessages)
+        .where(and(eq(hiddenMessages.userId, viewerId), eq(hiddenMessages.messageId, messages.id)))
+    );
+  }
+
+  // Messages of a chat, tombstones included, minus those the viewer deleted for themselves
+  private visibleIn(chatId: string, viewerId?: number): SQL {
+    const inChat = eq(messages.chatId, chatId);
+    if (viewerId === undefined) return inChat;
+
+    return and(inChat, this.notHiddenFrom(viewerId))!;
+  }
+
+  // Up to `limit` visible messages on one side of a cursor, oldest first
+  private async timeline(visible: SQL, side: 'older' | 'newer', cursor: MessageCursor | undefined, limit: number) {
+    if (side === 'newer') {
+      return this.db.select().from(messages)
+        .where(cursor ? and(visible, newerThan(cursor)) : visible)
+        .orderBy(asc(messages.timestamp), asc(messages.id))
+        .limit(limit);
+    }
+
+    const rows = await this.db.select().from(messages)
+      .where(cursor ? and(visible, olderThan(cursor)) : visible)
+      .orderBy(desc(messages.timestamp), desc(messages.id))
+      .limit(limit);
+    return rows.reverse();
+  }
+
+  private async hasMessages(visible: SQL, side: 'older' | 'newer', cursor: MessageCursor) {
+    return (await this.timeline(visible, side, cursor, 1)).length > 0;
+  }
+
+  async getMessagesByChatId(chatId: string, query: MessageQuery = {}): Promise<MessagePage | undefined> {
+    const limit = query.limit ?? 50;
+    const visible = this.visibleIn(chatId, query.viewerId);
+    let page: Message[];
+
+    if (query.around !== undefined) {
+      const [target] = await this.db.select().from(messages)
+        .where(and(eq(messages.id, query.around), visible));
+      if (!target) return undefined;
+
+      const cursor = { timestamp: target.timestamp!, id: target.id };
+      const older = await this.timeline(visible, 'older', cursor, Math.floor((limit - 1) / 2));
+      const newer = await this.timeline(visible, 'newer', cursor, limit - 1 - older.length);
+      page = [...older, target, ...newer];
+    } else if (query.after) {
+      page = await this.timeline(visible, 'newer', query.after, limit);
+    } else {
+      page = await this.timeline(visible, 'older', query.before, limit);
+    }
+
+    if (page.length > 0) {
+      const first = page[0];
+      const last = page[page.length - 1];
+      return {
+        messages: page,
+        hasMoreBefore: await this.hasMessages(visible, 'older', { timestamp: first.timestamp!, id: first.id }),
+        hasMoreAfter: await this.hasMessages(visible, 'newer', { timestamp: last.timestamp!, id: last.id })
+      };
+    }
+
+    // An empty page sits right at its cursor; ids are integers, so +/-1 makes the bound inclusive
+    return {
+      messages: [],
+      hasMoreBefore: query.after
+        ? await this.hasMessages(visible, 'older', { ...query.after, id: query.after.id + 1 })
+        : false,
+      hasMoreAfter: query.before
+        ? await this.hasMessages(visible, 'newer', { ...query.before, id: query.before.id - 1 })
+        : false
+    };
+  }
+
+  async createMessage(messageData: InsertMessage): Promise<Message> {
+    // Stamp in JS so timestamps keep millisecond precision, matching the cursors
+    const [message] = await this.db.insert(messages)
+      .values({ ...messageData, timestamp: new Date() })
+      .returning();
+    return message;
+  }
+
+  async updateMessage(id: number, isRead: boolean): Promise<Message | undefined> {
+    const [message] = await this.db.update(messages).set({ isRead }).where(eq(messages.id, id)).returning();
+    return message;
+  }
+
+  async deleteMessage(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const updated = await tx.update(messages)
+        .set({ content: '', mentions: [], isDeleted: true })
+        .where(eq(messages.id, id))
+        .returning({ id: messages.id });
+
+      // Earlier versions would still show what was deleted; reactions, stars and pins go too
+      await tx.delete(messageRevisions).where(eq(messageRevisions.messageId, id));
+      await tx.delete(messageReactions).where(eq(messageReactions.messageId, id));
+      await tx.delete(starredMessages).where(eq(starredMessages.messageId, id));
+      await tx.delete(pinnedMessages).where(eq(pinnedMessages.messageId, id));
+      return updated.length > 0;
+    });
+  }
+
+  async hideMessage(messageId: number, userId: number): Promise<void> {
+    await this.db.insert(hiddenMessages)
+      .values({ userId, messageId })
+      .onConflictDoNothing();
+  }
+
+  async editMessage(id: number, content: string, mentions: MessageMention[]): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the row so concurrent edits each record the version they replaced
+      const [message] = await tx.select().from(messages).where(eq(messages.id, id)).for('update');
+      if (!message) return undefined;
+
+      const editedAt = new Date();
+      await tx.insert(messageRevisions).values({
+        messageId: id,
+        content: message.content,
+        writtenAt: message.editedAt ?? message.timestamp!,
+        replacedAt: editedAt
+      });
+
+      const [updated] = await tx.update(messages)
+        .set({ content, mentions, editedAt })
+        .where(eq(messages.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getMessageRevisions(messageId: number): Promise<MessageRevision[]> {
+    return this.db.select().from(messageRevisions)
+      .where(eq(messageRevisions.messageId, messageId))
+      .orderBy(asc(messageRevisions.id));
+  }
+
+  async getMentions(chatId: string, userId: number, after?: MessageCursor): Promise<Message[]> {
+    const conditions: SQL[] = [
+      this.visibleIn(chatId, userId),
+      eq(messages.isDeleted, false),
+      ne(messages.senderId, userId),
+      or(
+        sql`${messages.mentions} @> ${JSON.stringify([{ userId }])}::jsonb`,
+        sql`${messages.mentions} @> ${JSON.stringify([{ userId: null }])}::jsonb`
+      )!
+    ];
+    if (after) {
+      conditions.push(newerThan(after));
+    }
+
+    return this.db.select().from(messages)
+      .where(and(...conditions))
+      .orderBy(asc(messages.timestamp), asc(messages.id));
+  }
+
+  async searchMessages(search: MessageSearch): Promise<Message[]> {
+    if (search.terms.length === 0 || search.chatIds.length === 0) return [];
+
+    // Prefix matches, so "hel" finds "hello"; terms are plain words, safe in tsquery syntax
+    const query = search.terms.map(term => `${term}:*`).join(' & ');
+    const conditions: SQL[] = [
+      inArray(messages.chatId, search.chatIds),
+      eq(messages.isDeleted, false),
+      or(isNull(messages.contentType), eq(messages.contentType, 'text'))!,
+      sql`${searchVector(messages.content)} @@ to_tsquery('simple', ${query})`
+    ];
+    if (search.before) {
+      conditions.push(olderThan(search.before));
+    }
+    if (search.viewerId !== undefined) {
+      conditions.push(this.notHiddenFrom(search.viewerId));
+    }
+
+    return this.db.select().from(messages)
+      .where(and(...conditions))
+      .orderBy(desc(messages.timestamp), desc(messages.id))
+      .limit(search.limit);
+  }
+
+  // Reaction methods
+  async getReactionsByMessageIds(messageIds: number[]): Promise<MessageReaction[]> {
+    if (messageIds.length === 0) return [];
+    return this.db.select().from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      .orderBy(asc(messageReactions.id));
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<boolean> {
+    const added = await this.db.insert(messageReactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoNothing()
+      .returning({ id: messageReactions.id });
+    return added.length > 0;
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<boolean> {
+    const removed = await this.db.delete(messageReactions)
+      .where(and(eq(messageReactions.messageId, messageId), eq(messageReactions.userId, userId), eq(messageReactions.emoji, emoji)))
+      .returning({ id: messageReactions.id });
+    return removed.length > 0;
+  }
+
+  // Star methods
+  async getStarredMessages(userId: number): Promise<StarredMessage[]> {
+    return this.db.select().from(starredMessages)
+      .where(eq(starredMessages.userId, userId))
+      .orderBy(desc(starredMessages.id));
+  }
+
+  async starMessage(messageId: number, userId: number): Promise<boolean> {
+    const added = await this.db.insert(starredMessages)
+      .values({ messageId, userId })
+      .onConflictDoNothing()
+      .returning({ id: starredMessages.id });
+    return added.length > 0;
+  }
+
+  async unstarMessage(messageId: number, userId: number): Promise<boolean> {
+    const removed = await this.db.delete(starredMessages)
+      .where(and(eq(starredMessages.messageId, messageId), eq(starredMessages.userId, userId)))
+      .returning({ id: starredMessages.id });
+    return removed.length > 0;
+  }
+
+  // Pin methods
+  async getPinnedMessages(chatId: string): Promise<PinnedMessage[]> {
+    return this.db.select().from(pinnedMessages)
+      .where(eq(pinnedMessages.chatId, chatId))
+      .orderBy(asc(pinnedMessages.id));
+  }
+
+  async pinMessage(chatId: string, messageId: number, pinnedBy: number, limit: number): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      // Pins of one chat are added one at a time, so two can't both take the last free slot
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`pinned_messages:${chatId}`}))`);
+
+      const pins = await tx.select({ id: pinnedMessages.id }).from(pinnedMessages)
+        .where(eq(pinnedMessages.chatId, chatId));
+      if (pins.length >= limit) return false;
+
+      const added = await tx.insert(pinnedMessages)
+        .values({ chatId, messageId, pinnedBy })
+        .onConflictDoNothing()
+        .returning({ id: pinnedMessages.id });
+      return added.length > 0;
+    });
+  }
+
+  async unpinMessage(messageId: number): Promise<boolean> {
+    const removed = await this.db.delete(pinnedMessages)
+      .where(eq(pinnedMessages.messageId, messageId))
+      .returning({ id: pinnedMessages.id });
+    return removed.length > 0;
+  }
+
+  // Scheduled message methods
+  async getScheduledMessage(id: number): Promise<ScheduledMessage | undefined> {
+    const [scheduled] = await this.db.select().from(scheduledMessages).where(eq(scheduledMessages.id, id));
+    return scheduled;
+  }
+
+  async getScheduledMessages(senderId: number, chatId?: string): Promise<ScheduledMessage[]> {
+    const conditions: SQL[] = [eq(scheduledMessages.senderId, senderId)];
+    if (chatId !== undefined) {
+      conditions.push(eq(scheduledMessages.chatId, chatId));
+    }
+
+    return this.db.select().from(scheduledMessages)
+      .where(and(...conditions))
+      .orderBy(asc(scheduledMessages.sendAt), asc(scheduledMessages.id));
+  }
+
+  async createScheduledMessage(messageData: InsertScheduledMessage): Promise<ScheduledMessage> {
+    const [scheduled] = await this.db.insert(scheduledMessages).values(messageData).returning();
+    return scheduled;
+  }
+
+  async deleteScheduledMessage(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(scheduledMessages)
+      .where(eq(scheduledMessages.id, id))
+      .returning({ id: scheduledMessages.id });
+    return deleted.length > 0;
+  }
+
+  async getDueScheduledMessages(now = new Date()): Promise<ScheduledMessage[]> {
+    return this.db.select().from(scheduledMessages)
+      .where(lte(scheduledMessages.sendAt, now))
+      .orderBy(asc(scheduledMessages.sendAt), asc(scheduledMessages.id));
+  }
+
+  async getNextScheduledSendAt(): Promise<Date | undefined> {
+    const [next] = await this.db.select({ sendAt: scheduledMessages.sendAt }).from(scheduledMessages)
+      .orderBy(asc(scheduledMessages.sendAt))
+      .limit(1);
+    return next?.sendAt;
+  }
+
+  // Draft methods
+  async getDrafts(userId: number): Promise<MessageDraft[]> {
+    return this.db.select().from(messageDrafts).where(eq(messageDrafts.userId, userId));
+  }
+
+  async saveDraft(userId: number, chatId: string, content: string): Promise<MessageDraft> {
+    const [draft] = await this.db.insert(messageDrafts)
+      .values({ userId, chatId, content })
+      .onConflictDoUpdate({
+        target: [messageDrafts.userId, messageDrafts.chatId],
+        set: { content, updatedAt: new Date() }
+      })
+      .returning();
+    return draft;
+  }
+
+  async deleteDraft(userId: number, chatId: string): Promise<boolean> {
+    const deleted = await this.db.delete(messageDrafts)
+      .where(and(eq(messageDrafts.userId, userId), eq(messageDrafts.chatId, chatId)))
+      .returning({ id: messageDrafts.id });
+    return deleted.length > 0;
+  }
+
+  // Chat group methods
+  async getChatGroup(id: number): Promise<ChatGroup | undefined> {
+    const [group] = await this.db.select().from(chatGroups).where(eq(chatGroups.id, id));
+    return group;
+  }
+
+  async getChatGroups(): Promise<ChatGroup[]> {
+    return this.db.select().from(chatGroups);
+  }
+
+  async getChatGroupsByUserId(userId: number): Promise<ChatGroup[]> {
+    const memberGroups = this.db.select({ groupId: groupMembers.groupId })
+      .from(groupMembers)
+      .where(eq(groupMembers.userId, userId));
+
+    return this.db.select().from(chatGroups).where(inArray(chatGroups.id, memberGroups));
+  }
+
+  async createChatGroup(groupData: InsertChatGroup): Promise<ChatGroup> {
+    const [group] = await this.db.insert(chatGroups).values(groupData).returning();
+    return group;
+  }
+
+  async updateChatGroup(id: number, groupData: Partial<ChatGroup>): Promise<ChatGroup | undefined> {
+    const [group] = await this.db.update(chatGroups).set(groupData).where(eq(chatGroups.id, id)).returning();
+    return group;
+  }
+
+  async deleteChatGroup(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(chatGroups).where(eq(chatGroups.id, id)).returning({ id: chatGroups.id });
+    return deleted.length > 0;
+  }
+
+  // Group member methods
+  async getGroupMember(groupId: number, userId: number): Promise<GroupMember | undefined> {
+    const [member] = await this.db.select().from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+    return member;
+  }
+
+  async getGroupMemberById(id: number): Promise<GroupMember | undefined> {
+    const [member] = await this.db.select().from(groupMembers).where(eq(groupMembers.id, id));
+    return member;
+  }
+
+  async getGroupMembers(groupId: number): Promise<GroupMember[]> {
+    return this.db.select().from(groupMembers).where(eq(groupMembers.groupId, groupId));
+  }
+
+  async addGroupMember(memberData: InsertGroupMember): Promise<GroupMember> {
+    const [member] = await this.db.insert(groupMembers).values(memberData).returning();
+    return member;
+  }
+
+  async updateGroupMember(id: number, memberData: Partial<GroupMember>): Promise<GroupMember | undefined> {
+    const [member] = await this.db.update(groupMembers).set(memberData).where(eq(groupMembers.id, id)).returning();
+    return member;
+  }
+
+  async removeGroupMember(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(groupMembers).where(eq(groupMembers.id, id)).returning({ id: groupMembers.id });
+    return deleted.length > 0;
+  }
+
+  // Status methods
+  async getStatus(id: number): Promise<Status | undefined> {
+    const [status] = await this.db.select().from(statuses).where(eq(statuses.id, id));
+    return status;
+  }
+
+  async getStatusesByUserId(userId: number): Promise<Status[]> {
+    return this.db.select().from(statuses)
+      .where(and(
+        eq(statuses.userId, userId),
+        or(isNull(statuses.expiresAt), gt(statuses.expiresAt, new Date()))
+      ))
+      .orderBy(desc(statuses.createdAt));
+  }
+
+  async getActiveStatuses(): Promise<Status[]> {
+    return this.db.select().from(statuses)
+      .where(or(isNull(statuses.expiresAt), gt(statuses.expiresAt, new Date())))
+      .orderBy(desc(statuses.createdAt));
+  }
+
+  async createStatus(statusData: InsertStatus): Promise<Status> {
+    // Status expires after the configured number of days
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + retentionConfig.statusDays);
+
+    const [status] = await this.db.insert(statuses).values({ ...statusData, expiresAt }).returning();
+    return status;
+  }
+
+  async deleteStatus(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(statuses).where(eq(statuses.id, id)).returning({ id: statuses.id });
+    return deleted.length > 0;
+  }
+
+  // Status view methods
+  async getStatusViews(statusId: number): Promise<StatusView[]> {
+    return this.db.select().from(statusViews).where(eq(statusViews.statusId, statusId));
+  }
+
+  async addStatusView(viewData: InsertStatusView): Promise<StatusView> {
+    const [view] = await this.db.insert(statusViews).values(viewData).returning();
+    return view;
+  }
+
+  // Conversation methods
+  async getConversation(user1Id: number, user2Id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations)
+      .where(or(
+        and(eq(conversations.user1Id, user1Id), eq(conversations.user2Id, user2Id)),
+        and(eq(conversations.user1Id, user2Id), eq(conversations.user2Id, user1Id))
+      ));
+    return conversation;
+  }
+
+  async getConversationsByUserId(userId: number): Promise<Conversation[]> {
+    return this.db.select().from(conversations)
+      .where(or(eq(conversations.user1Id, userId), eq(conversations.user2Id, userId)))
+      .orderBy(desc(conversations.lastMessageAt));
+  }
+
+  async createConversation(conversationData: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db.insert(conversations).values(conversationData).returning();
+    return conversation;
+  }
+
+  async updateConversationLastMessage(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.update(conversations)
+      .set({ lastMessageAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  // Chat settings methods
+  async getChatSettings(chatId: string): Promise<ChatSettings | undefined> {
+    const [settings] = await this.db.select().from(chatSettings).where(eq(chatSettings.chatId, chatId));
+    return settings;
+  }
+
+  async getRetentionOverrides(): Promise<ChatSettings[]> {
+    return this.db.select().from(chatSettings).where(isNotNull(chatSettings.messageRetentionDays));
+  }
+
+  async upsertChatSettings(chatId: string, settingsData: Partial<InsertChatSettings>): Promise<ChatSettings> {
+    const values = { ...settingsData, chatId, updatedAt: new Date() };
+    const [settings] = await this.db.insert(chatSettings)
+      .values(values)
+      .onConflictDoUpdate({ target: chatSettings.chatId, set: values })
+      .returning();
+    return settings;
+  }
+
+  // Read receipt methods
+  async getChatReads(chatId: string): Promise<ChatRead[]> {
+    return this.db.select().from(chatReads).where(eq(chatReads.chatId, chatId));
+  }
+
+  async markChatRead(chatId: string, userId: number, message: Message): Promise<ChatRead> {
+    const values = {
+      chatId,
+      userId,
+      lastReadMessageId: message.id,
+      lastReadTimestamp: message.timestamp!,
+      readAt: new Date()
+    };
+
+    // Only overwrite a watermark that is behind the new one
+    const [read] = await this.db.insert(chatReads)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [chatReads.chatId, chatReads.userId],
+        set: values,
+        setWhere: or(
+          lt(chatReads.lastReadTimestamp, values.lastReadTimestamp),
+          and(eq(chatReads.lastReadTimestamp, values.lastReadTimestamp), lt(chatReads.lastReadMessageId, message.id))
+        )
+      })
+      .returning();
+    if (read) return read;
+
+    const [existing] = await this.db.select().from(chatReads)
+      .where(and(eq(chatReads.chatId, chatId), eq(chatReads.userId, userId)));
+    return existing;
+  }
+
+  async getChatDeliveries(chatId: string): Promise<ChatDelivery[]> {
+    return this.db.select().from(chatDeliveries).where(eq(chatDeliveries.chatId, chatId));
+  }
+
+  async markChatDelivered(chatId: string, userId: number, message: Message): Promise<ChatDelivery> {
+    const values = {
+      chatId,
+      userId,
+      lastDeliveredMessageId: message.id,
+      lastDeliveredTimestamp: message.timestamp!,
+      deliveredAt: new Date()
+    };
+
+    // Only overwrite a watermark that is behind the new one
+    const [delivery] = await this.db.insert(chatDeliveries)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [chatDeliveries.chatId, chatDeliveries.userId],
+        set: values,
+        setWhere: or(
+          lt(chatDeliveries.lastDeliveredTimestamp, values.lastDeliveredTimestamp),
+          and(eq(chatDeliveries.lastDeliveredTimestamp, values.lastDeliveredTimestamp), lt(chatDeliveries.lastDeliveredMessageId, message.id))
+        )
+      })
+      .returning();
+    if (delivery) return delivery;
+
+    const [existing] = await this.db.select().from(chatDeliveries)
+      .where(and(eq(chatDeliveries.chatId, chatId), eq(chatDeliveries.userId, userId)));
+    return existing;
+  }
+
+  // Retention methods
+  async purgeMessagesOlderThan(cutoff: Date, scope: PurgeScope = {}): Promise<Message[]> {
+    const conditions: SQL[] = [lt(messages.timestamp, cutoff)];
+    if (scope.chatId !== undefined) {
+      conditions.push(eq(messages.chatId, scope.chatId));
+    }
+    if (scope.excludeChatIds?.length) {
+      conditions.push(notInArray(messages.chatId, scope.excludeChatIds));
+    }
+
+    return this.purgeMessagesWhere(and(...conditions)!);
+  }
+
+  async purgeDisappearedMessages(now = new Date()): Promise<Message[]> {
+    return this.purgeMessagesWhere(lte(messages.expiresAt, now));
+  }
+
+  async getNextMessageExpiry(): Promise<Date | undefined> {
+    const [next] = await this.db.select({ expiresAt: messages.expiresAt }).from(messages)
+      .where(isNotNull(messages.expiresAt))
+      .orderBy(asc(messages.expiresAt))
+      .limit(1);
+    return next?.expiresAt ?? undefined;
+  }
+
+  // Earlier versions of a removed message, who hid it, its reactions, stars and pins go with it
+  // in the same transaction, so a failure part way leaves nothing half removed
+  private async purgeMessagesWhere(condition: SQL): Promise<Message[]> {
+    return this.db.transaction(async tx => {
+      const expired = tx.select({ id: messages.id }).from(messages).where(condition);
+      await tx.delete(messageRevisions).where(inArray(messageRevisions.messageId, expired));
+      await tx.delete(hiddenMessages).where(inArray(hiddenMessages.messageId, expired));
+      await tx.delete(messageReactions).where(inArray(messageReactions.messageId, expired));
+      await tx.delete(starredMessages).where(inArray(starredMessages.messageId, expired));
+      await tx.delete(pinnedMessages).where(inArray(pinnedMessages.messageId, expired));
+
+      return tx.delete(messages).where(condition).returning();
+    });
+  }
+
+  async purgeExpiredStatuses(now = new Date()): Promise<Status[]> {
+    const expired = this.db.select({ id: statuses.id }).from(statuses).where(lt(statuses.expiresAt, now));
+    await this.db.delete(statusViews).where(inArray(statusViews.statusId, expired));
+
+    return this.db.delete(statuses).where(lt(statuses.expiresAt, now)).returning();
+  }
+}
@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+// One mutation of a MemStorage table
+export interface JournalRecord {
+  table: string;
+  op: 'set' | 'delete';
+  id: number;
+  value?: unknown;
+}
+
+// Full state written at compaction time
+export interface Snapshot {
+  tables: Record<string, [number, unknown][]>;
+  counters: Record<string, number>;
+}
+
+interface JournalOptions {
+  // Compact once this many records have been appended since the last snapshot
+  compactAfter?: number;
+}
+
+// Dates don't survive JSON on their own, so tag them on the way out
+function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+function reviver(_key: string, value: unknown) {
+  return value && typeof value === 'object' && '$date' in value && typeof value.$date === 'string'
+    ? new Date(value.$date)
+    : value;
+}
+
+function checksum(payload: string) {
+  return createHash("sha256").update(payload).digest("hex").slice(0, 16);
+}
+
+/**
+ * Append-only journal plus periodic snapshot for MemStorage.
+ * Each journal line is "<checksum> <json>"; replay stops at the first torn or
+ * corrupted line and truncates the file there so later appends stay readable.
+ */
+export class SnapshotJournal {
+  private snapshotPath: string;
+  private journalPath: string;
+  private fd: number | null = null;
+  private appended = 0;
+  private compactAfter: number;
+
+  constructor(dir: string, options: JournalOptions = {}) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.snapshotPath = path.join(dir, "snapshot.json");
+    this.journalPath = path.join(dir, "journal.log");
+    this.compactAfter = options.compactAfter ?? 5000;
+  }
+
+  // Read the last snapshot and every intact journal record written after it
+  load(): { snapshot: Snapshot | null; records: JournalRecord[] } {
+    const snapshot = this.readSnapshot();
+    const records = this.readJournal();
+
+    this.fd = fs.openSync(this.journalPath, "a");
+    return { snapshot, records };
+  }
+
+  append(record: JournalRecord) {
+    if (this.fd === null) {
+      throw new Error("Journal used before load()");
+    }
+
+    const payload = JSON.stringify(record, replacer);
+    fs.writeSync(this.fd, `${checksum(payload)} ${payload}\n`);
+    fs.fdatasyncSync(this.fd);
+    this.appended++;
+  }
+
+  needsCompaction() {
+    return this.appended >= this.compactAfter;
+  }
+
+  // Atomically replace the snapshot, then start an empty journal
+  compact(snapshot: Snapshot) {
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    const tmpFd = fs.openSync(tmpPath, "w");
+    try {
+      fs.writeSync(tmpFd, JSON.stringify(snapshot, replacer));
+      fs.fsyncSync(tmpFd);
+    } finally {
+      fs.closeSync(tmpFd);
+    }
+    fs.renameSync(tmpPath, this.snapshotPath);
+
+    // A crash before this point only means replaying records the snapshot already holds
+    if (this.fd !== null) {
+      fs.ftruncateSync(this.fd, 0);
+      fs.fsyncSync(this.fd);
+    }
+    this.appended = 0;
+  }
+
+  close() {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private readSnapshot(): Snapshot | null {
+    if (!fs.existsSync(this.snapshotPath)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(this.snapshotPath, "utf8"), reviver);
+    } catch (error) {
+      // Keep the unreadable file for inspection rather than overwriting it
+      const asidePath = `${this.snapshotPath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.snapshotPath, asidePath);
+      console.error(`Unreadable snapshot moved to ${asidePath}:`, error);
+      return null;
+    }
+  }
+
+  private readJournal(): JournalRecord[] {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    const data = fs.readFileSync(this.journalPath);
+    const records: JournalRecord[] = [];
+    let offset = 0;
+
+    while (offset < data.length) {
+      const end = data.indexOf(0x0a, offset);
+      // No trailing newline means the last write was torn
+      if (end === -1) break;
+
+      const line = data.subarray(offset, end).toString("utf8");
+      const separator = line.indexOf(" ");
+      const payload = line.slice(separator + 1);
+      if (separator === -1 || checksum(payload) !== line.slice(0, separator)) break;
+
+      try {
+        records.push(JSON.parse(payload, reviver));
+      } catch {
+        break;
+      }
+
+      offset = end + 1;
+    }
+
+    if (offset < data.length) {
+      console.warn(`Journal damaged at byte ${offset}; truncating ${data.length - offset} bytes`);
+      fs.truncateSync(this.journalPath, offset);
+    }
+
+    this.appended = records.length;
+    return records;
+  }
+}
@@ -0,0 +1,375 @@
+import { tokenize } from "./search";
+import { Message, User, ChatGroup, GroupMember, Status, StatusView, Conversation, ChatSettings, ChatRead, ChatDelivery, MessageRevision, HiddenMessage, MessageReaction, StarredMessage, PinnedMessage, ScheduledMessage, MessageDraft } from "@shared/schema";
+
+// Row type of each MemStorage table
+export interface TableRows {
+  users: User;
+  messages: Message;
+  chatGroups: ChatGroup;
+  groupMembers: GroupMember;
+  statuses: Status;
+  statusViews: StatusView;
+  conversations: Conversation;
+  chatSettings: ChatSettings;
+  chatReads: ChatRead;
+  chatDeliveries: ChatDelivery;
+  messageRevisions: MessageRevision;
+  hiddenMessages: HiddenMessage;
+  messageReactions: MessageReaction;
+  starredMessages: StarredMessage;
+  pinnedMessages: PinnedMessage;
+  scheduledMessages: ScheduledMessage;
+  messageDrafts: MessageDraft;
+}
+
+export type TableName = keyof TableRows;
+
+// A table name followed by one of that table's rows
+export type TableRow = { [K in TableName]: [table: K, row: TableRows[K]] }[TableName];
+
+// A message's place in its chat; timestamp and id never change after creation
+export type TimelineEntry = Pick<Message, 'timestamp' | 'id'>;
+
+export function compareEntries(a: TimelineEntry, b: TimelineEntry) {
+  return (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0) || a.id - b.id;
+}
+
+// First index whose entry is >= position (or > position when `strict`)
+export function lowerBound(timeline: TimelineEntry[], position: TimelineEntry, strict = false) {
+  let low = 0;
+  let high = timeline.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const cmp = compareEntries(timeline[mid], position);
+    if (cmp < 0 || (strict && cmp === 0)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Up to `limit` timeline positions walking from `from` in direction `step`, skipping hidden message ids
+export function walkTimeline(timeline: TimelineEntry[], from: number, step: 1 | -1, limit: number, hidden?: Set<number>) {
+  const positions: number[] = [];
+  for (let i = from; i >= 0 && i < timeline.length && positions.length < limit; i += step) {
+    if (!hidden?.has(timeline[i].id)) positions.push(i);
+  }
+  return positions;
+}
+
+export function pairKey(user1Id: number, user2Id: number) {
+  return user1Id < user2Id ? `${user1Id}_${user2Id}` : `${user2Id}_${user1Id}`;
+}
+
+export function clientKey(senderId: number, clientMessageId: string) {
+  return `${senderId}:${clientMessageId}`;
+}
+
+export function reactionKey(userId: number, emoji: string) {
+  return `${userId}:${emoji}`;
+}
+
+// Words a message is found by; only live text messages are searchable
+function searchableWords(message: Message) {
+  if (message.isDeleted || (message.contentType ?? 'text') !== 'text') return [];
+  return Array.from(new Set(tokenize(message.content)));
+}
+
+function setNested<K1, K2, V>(map: Map<K1, Map<K2, V>>, key: K1, innerKey: K2, value: V) {
+  let inner = map.get(key);
+  if (!inner) {
+    inner = new Map();
+    map.set(key, inner);
+  }
+  inner.set(innerKey, value);
+}
+
+function deleteNested<K1, K2, V>(map: Map<K1, Map<K2, V>>, key: K1, innerKey: K2) {
+  const inner = map.get(key);
+  if (!inner) return;
+  inner.delete(innerKey);
+  if (inner.size === 0) map.delete(key);
+}
+
+function addToSet<K, V>(map: Map<K, Set<V>>, key: K, value: V) {
+  let set = map.get(key);
+  if (!set) {
+    set = new Set();
+    map.set(key, set);
+  }
+  set.add(value);
+}
+
+function removeFromSet<K, V>(map: Map<K, Set<V>>, key: K, value: V) {
+  const set = map.get(key);
+  if (!set) return;
+  set.delete(value);
+  if (set.size === 0) map.delete(key);
+}
+
+// First index of a sorted word list whose word is >= `word`
+function wordPosition(words: string[], word: string) {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (words[mid] < word) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Secondary indexes over MemStorage's tables. MemStorage calls add() after a
+ * row is stored and remove() with the old row before it changes or goes away.
+ */
+export class MemIndexes {
+  usersByEmail = new Map<string, number>();
+  usersByUsername = new Map<string, number>();
+  // Messages per chat, deleted tombstones included, ordered by (timestamp, id)
+  chatTimelines = new Map<string, TimelineEntry[]>();
+  // "<senderId>:<clientMessageId>" -> message id, deleted messages included
+  messagesByClientId = new Map<string, number>();
+  // Inverted search index: lowercased word -> ids of text messages containing it
+  messagesByWord = new Map<string, Set<number>>();
+  // The keys of messagesByWord in sorted order, so words sharing a prefix sit next to each other
+  private sortedWords: string[] = [];
+  // Ids of messages with an expiresAt (disappearing messages)
+  expiringMessages = new Set<number>();
+  // groupId -> userId -> member id
+  membersByGroup = new Map<number, Map<number, number>>();
+  // userId -> ids of groups they belong to
+  groupsByUser = new Map<number, Set<number>>();
+  conversationsByPair = new Map<string, number>();
+  conversationsByUser = new Map<number, Set<number>>();
+  settingsByChat = new Map<string, number>();
+  // chatId -> userId -> read watermark id
+  readsByChat = new Map<string, Map<number, number>>();
+  // chatId -> userId -> delivery watermark id
+  deliveriesByChat = new Map<string, Map<number, number>>();
+  // messageId -> ids of its revisions
+  revisionsByMessage = new Map<number, Set<number>>();
+  // userId -> ids of messages they deleted for themselves
+  hiddenByUser = new Map<number, Set<number>>();
+  // messageId -> userId -> hidden row id
+  hiddenByMessage = new Map<number, Map<number, number>>();
+  // messageId -> "<userId>:<emoji>" -> reaction id
+  reactionsByMessage = new Map<number, Map<string, number>>();
+  // userId -> ids of their star rows
+  starsByUser = new Map<number, Set<number>>();
+  // messageId -> userId -> star id
+  starsByMessage = new Map<number, Map<number, number>>();
+  // chatId -> ids of its pin rows
+  pinsByChat = new Map<string, Set<number>>();
+  // messageId -> pin id
+  pinsByMessage = new Map<number, number>();
+  // senderId -> ids of their pending scheduled messages
+  scheduledBySender = new Map<number, Set<number>>();
+  // userId -> chatId -> draft id
+  draftsByUser = new Map<number, Map<string, number>>();
+
+  // Indexed words that start with `prefix`
+  wordsStartingWith(prefix: string): string[] {
+    const words: string[] = [];
+    for (let i = wordPosition(this.sortedWords, prefix); i < this.sortedWords.length; i++) {
+      if (!this.sortedWords[i].startsWith(prefix)) break;
+      words.push(this.sortedWords[i]);
+    }
+    return words;
+  }
+
+  private addWord(word: string, messageId: number) {
+    if (!this.messagesByWord.has(word)) {
+      this.sortedWords.splice(wordPosition(this.sortedWords, word), 0, word);
+    }
+    addToSet(this.messagesByWord, word, messageId);
+  }
+
+  private removeWord(word: string, messageId: number) {
+    removeFromSet(this.messagesByWord, word, messageId);
+    if (this.messagesByWord.has(word)) return;
+
+    const index = wordPosition(this.sortedWords, word);
+    if (this.sortedWords[index] === word) this.sortedWords.splice(index, 1);
+  }
+
+  add(...[table, row]: TableRow) {
+    switch (table) {
+      case 'users': {
+        this.usersByEmail.set(row.email, row.id);
+        this.usersByUsername.set(row.username, row.id);
+        break;
+      }
+      case 'messages': {
+        if (row.clientMessageId) {
+          this.messagesByClientId.set(clientKey(row.senderId, row.clientMessageId), row.id);
+        }
+        let timeline = this.chatTimelines.get(row.chatId);
+        if (!timeline) {
+          timeline = [];
+          this.chatTimelines.set(row.chatId, timeline);
+        }
+        const entry = { timestamp: row.timestamp, id: row.id };
+        // New messages almost always go at the end
+        const last = timeline[timeline.length - 1];
+        if (!last || compareEntries(last, entry) < 0) {
+          timeline.push(entry);
+        } else {
+          timeline.splice(lowerBound(timeline, entry), 0, entry);
+        }
+        searchableWords(row).forEach(word => this.addWord(word, row.id));
+        if (row.expiresAt) this.expiringMessages.add(row.id);
+        break;
+      }
+      case 'groupMembers': {
+        let members = this.membersByGroup.get(row.groupId);
+        if (!members) {
+          members = new Map();
+          this.membersByGroup.set(row.groupId, members);
+        }
+        members.set(row.userId, row.id);
+        addToSet(this.groupsByUser, row.userId, row.groupId);
+        break;
+      }
+      case 'conversations': {
+        this.conversationsByPair.set(pairKey(row.user1Id, row.user2Id), row.id);
+        addToSet(this.conversationsByUser, row.user1Id, row.id);
+        addToSet(this.conversationsByUser, row.user2Id, row.id);
+        break;
+      }
+      case 'chatSettings': {
+        this.settingsByChat.set(row.chatId, row.id);
+        break;
+      }
+      case 'chatReads': {
+        setNested(this.readsByChat, row.chatId, row.userId, row.id);
+        break;
+      }
+      case 'chatDeliveries': {
+        setNested(this.deliveriesByChat, row.chatId, row.userId, row.id);
+        break;
+      }
+      case 'messageRevisions': {
+        addToSet(this.revisionsByMessage, row.messageId, row.id);
+        break;
+      }
+      case 'hiddenMessages': {
+        addToSet(this.hiddenByUser, row.userId, row.messageId);
+        setNested(this.hiddenByMessage, row.messageId, row.userId, row.id);
+        break;
+      }
+      case 'messageReactions': {
+        setNested(this.reactionsByMessage, row.messageId, reactionKey(row.userId, row.emoji), row.id);
+        break;
+      }
+      case 'starredMessages': {
+        addToSet(this.starsByUser, row.userId, row.id);
+        setNested(this.starsByMessage, row.messageId, row.userId, row.id);
+        break;
+      }
+      case 'pinnedMessages': {
+        addToSet(this.pinsByChat, row.chatId, row.id);
+        this.pinsByMessage.set(row.messageId, row.id);
+        break;
+      }
+      case 'scheduledMessages': {
+        addToSet(this.scheduledBySender, row.senderId, row.id);
+        break;
+      }
+      case 'messageDrafts': {
+        setNested(this.draftsByUser, row.userId, row.chatId, row.id);
+        break;
+      }
+    }
+  }
+
+  remove(...[table, row]: TableRow) {
+    switch (table) {
+      case 'users': {
+        this.usersByEmail.delete(row.email);
+        this.usersByUsername.delete(row.username);
+        break;
+      }
+      case 'messages': {
+        if (row.clientMessageId) {
+          this.messagesByClientId.delete(clientKey(row.senderId, row.clientMessageId));
+        }
+        searchableWords(row).forEach(word => this.removeWord(word, row.id));
+        this.expiringMessages.delete(row.id);
+
+        const timeline = this.chatTimelines.get(row.chatId);
+        if (!timeline) break;
+
+        const index = lowerBound(timeline, row);
+        if (timeline[index]?.id === row.id) {
+          timeline.splice(index, 1);
+        }
+        if (timeline.length === 0) this.chatTimelines.delete(row.chatId);
+        break;
+      }
+      case 'groupMembers': {
+        const members = this.membersByGroup.get(row.groupId);
+        if (members?.get(row.userId) === row.id) {
+          members.delete(row.userId);
+          if (members.size === 0) this.membersByGroup.delete(row.groupId);
+          removeFromSet(this.groupsByUser, row.userId, row.groupId);
+        }
+        break;
+      }
+      case 'conversations': {
+        this.conversationsByPair.delete(pairKey(row.user1Id, row.user2Id));
+        removeFromSet(this.conversationsByUser, row.user1Id, row.id);
+        removeFromSet(this.conversationsByUser, row.user2Id, row.id);
+        break;
+      }
+      case 'chatSettings': {
+        this.settingsByChat.delete(row.chatId);
+        break;
+      }
+      case 'chatReads': {
+        deleteNested(this.readsByChat, row.chatId, row.userId);
+        break;
+      }
+      case 'chatDeliveries': {
+        deleteNested(this.deliveriesByChat, row.chatId, row.userId);
+        break;
+      }
+      case 'messageRevisions': {
+        removeFromSet(this.revisionsByMessage, row.messageId, row.id);
+        break;
+      }
+      case 'hiddenMessages': {
+        removeFromSet(this.hiddenByUser, row.userId, row.messageId);
+        deleteNested(this.hiddenByMessage, row.messageId, row.userId);
+        break;
+      }
+      case 'messageReactions': {
+        deleteNested(this.reactionsByMessage, row.messageId, reactionKey(row.userId, row.emoji));
+        break;
+      }
+      case 'starredMessages': {
+        removeFromSet(this.starsByUser, row.userId, row.id);
+        deleteNested(this.starsByMessage, row.messageId, row.userId);
+        break;
+      }
+      case 'pinnedMessages': {
+        removeFromSet(this.pinsByChat, row.chatId, row.id);
+        this.pinsByMessage.delete(row.messageId);
+        break;
+      }
+      case 'scheduledMessages': {
+        removeFromSet(this.scheduledBySender, row.senderId, row.id);
+        break;
+      }
+      case 'messageDrafts': {
+        deleteNested(this.draftsByUser, row.userId, row.chatId);
+        break;
+      }
+    }
+  }
+}
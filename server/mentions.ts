@@ -0,0 +1,53 @@
+import { MessageMention } from "@shared/schema";
+
+// "@all" mentions every member of a group; only admins may use it
+export const MENTION_ALL = 'all';
+
+// Someone who can be mentioned in a chat
+export interface Mentionable {
+  userId: number;
+  username: string;
+}
+
+// A mention starts after whitespace (or at the start) and ends before anything that
+// could continue a name, so "mail@bob.com" and "@bobby" never mention "bob"
+function endsName(content: string, index: number) {
+  return index >= content.length || !/[\p{L}\p{N}_]/u.test(content[index]);
+}
+
+// Find "@username" and "@all" in message content. Names are matched case-insensitively
+// against the chat's members, longest first, since usernames may contain spaces or dots.
+export function findMentions(content: string, members: Mentionable[]): MessageMention[] {
+  const candidates = [
+    ...members.map(member => ({
+      userId: member.userId as number | null,
+      name: member.username.toLowerCase(),
+      length: member.username.length
+    })),
+    { userId: null, name: MENTION_ALL, length: MENTION_ALL.length }
+  ].sort((a, b) => b.length - a.length);
+
+  const mentions: MessageMention[] = [];
+
+  for (let offset = content.indexOf('@'); offset !== -1; offset = content.indexOf('@', offset + 1)) {
+    if (offset > 0 && !/\s/.test(content[offset - 1])) continue;
+
+    const match = candidates.find(candidate =>
+      content.slice(offset + 1, offset + 1 + candidate.length).toLowerCase() === candidate.name &&
+      endsName(content, offset + 1 + candidate.length)
+    );
+    if (match) {
+      mentions.push({ userId: match.userId, offset, length: match.length + 1 });
+    }
+  }
+
+  return mentions;
+}
+
+// Everyone a set of mentions reaches; @all stands for every member
+export function mentionedUserIds(mentions: MessageMention[], memberIds: number[]): number[] {
+  if (mentions.some(mention => mention.userId === null)) return memberIds;
+
+  return Array.from(new Set(mentions.map(mention => mention.userId!)))
+    .filter(userId => memberIds.includes(userId));
+}
@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction } from "express";
+import { Message, Status } from "@shared/schema";
+import { storage } from "./storage";
+import { editConfig } from "./config";
+import { parseChatId } from "./chat-ids";
+import { getContactIds } from "./presence";
+
+// Profile fields a user may change on their own record
+export const PROFILE_UPDATE_FIELDS = ['username', 'profilePicture', 'about'] as const;
+
+// Member fields a group admin may change
+export const MEMBER_UPDATE_FIELDS = ['isAdmin', 'canWrite'] as const;
+
+// Return the keys of an update body that fall outside a whitelist
+export function disallowedFields(body: Record<string, unknown>, allowed: readonly string[]) {
+  return Object.keys(body).filter(key => !allowed.includes(key));
+}
+
+// Whether a message was sent at most `minutes` ago; 0 means no limit
+function isWithinMinutes(message: Message, minutes: number, now: Date) {
+  if (minutes === 0) return true;
+  return now.getTime() - message.timestamp!.getTime() <= minutes * 60 * 1000;
+}
+
+// All authorization rules live here so routes only ask questions
+export const policy = {
+  async canReadChat(userId: number, chatId: string): Promise<boolean> {
+    const chat = parseChatId(chatId);
+    if (!chat) return false;
+
+    if (chat.type === 'group') {
+      return policy.isGroupMember(userId, chat.groupId);
+    }
+
+    return chat.userIds.includes(userId);
+  },
+
+  async canWriteChat(userId: number, chatId: string): Promise<boolean> {
+    const chat = parseChatId(chatId);
+    if (!chat) return false;
+
+    if (chat.type === 'group') {
+      const member = await storage.getGroupMember(chat.groupId, userId);
+      return !!member && member.canWrite !== false;
+    }
+
+    if (!chat.userIds.includes(userId)) return false;
+
+    // Both ends of a DM must exist
+    const otherUserId = chat.userIds[0] === userId ? chat.userIds[1] : chat.userIds[0];
+    return !!(await storage.getUser(otherUserId));
+  },
+
+  async isGroupMember(userId: number, groupId: number): Promise<boolean> {
+    return !!(await storage.getGroupMember(groupId, userId));
+  },
+
+  async canManageGroup(userId: number, groupId: number): Promise<boolean> {
+    const member = await storage.getGroupMember(groupId, userId);
+    return !!member?.isAdmin;
+  },
+
+  async canManageMember(userId: number, memberId: number): Promise<boolean> {
+    const member = await storage.getGroupMemberById(memberId);
+    if (!member) return false;
+
+    return policy.canManageGroup(userId, member.groupId);
+  },
+
+  // Chat-wide settings: any DM participant, or a group admin
+  async canManageChat(userId: number, chatId: string): Promise<boolean> {
+    const chat = parseChatId(chatId);
+    if (!chat) return false;
+
+    if (chat.type === 'group') {
+      return policy.canManageGroup(userId, chat.groupId);
+    }
+
+    return chat.userIds.includes(userId);
+  },
+
+  // Only the sender edits a message, and only while they can still write to its chat
+  async canEditMessage(userId: number, message: Message): Promise<boolean> {
+    return message.senderId === userId && policy.canWriteChat(userId, message.chatId);
+  },
+
+  isWithinEditWindow(message: Message, now = new Date()): boolean {
+    return isWithinMinutes(message, editConfig.windowMinutes, now);
+  },
+
+  // Group admins moderate: they may delete any message in their group for everyone
+  async canModerateMessage(userId: number, message: Message): Promise<boolean> {
+    const chat = parseChatId(message.chatId);
+    return chat?.type === 'group' && policy.canManageGroup(userId, chat.groupId);
+  },
+
+  isWithinDeleteWindow(message: Message, now = new Date()): boolean {
+    return isWithinMinutes(message, editConfig.deleteWindowMinutes, now);
+  },
+
+  // Pins show for the whole chat: group admins pin in groups, either participant in a DM
+  async canPinMessage(userId: number, message: Message): Promise<boolean> {
+    const chat = parseChatId(message.chatId);
+    if (chat?.type === 'group') {
+      return policy.canManageGroup(userId, chat.groupId);
+    }
+
+    return policy.canWriteChat(userId, message.chatId);
+  },
+
+  canEditProfile(userId: number, profileId: number): boolean {
+    return userId === profileId;
+  },
+
+  // Group lists and DM lists are private to their owner
+  canViewUserChats(userId: number, profileId: number): boolean {
+    return userId === profileId;
+  },
+
+  // Statuses are shared with the people someone chats with: DM partners and fellow group members
+  async canViewStatusesOf(userId: number, ownerId: number): Promise<boolean> {
+    if (userId === ownerId) return true;
+    return (await getContactIds(userId)).includes(ownerId);
+  },
+
+  // The statuses among `statuses` a user may see
+  async visibleStatuses(userId: number, statuses: Status[]): Promise<Status[]> {
+    const contactIds = new Set(await getContactIds(userId));
+    return statuses.filter(status => status.userId === userId || contactIds.has(status.userId));
+  },
+
+  async canViewStatusViews(userId: number, statusId: number): Promise<boolean> {
+    const status = await storage.getStatus(statusId);
+    return !!status && status.userId === userId;
+  },
+};
+
+type PolicyCheck = (req: Request) => boolean | Promise<boolean>;
+
+// Route middleware that answers 403 when a policy check fails
+export function authorize(check: PolicyCheck, message = 'Forbidden') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!(await check(req))) {
+        return res.status(403).json({ message });
+      }
+      next();
+    } catch (error) {
+      console.error('Authorization error:', error);
+      res.status(500).json({ message: 'Error checking permissions' });
+    }
+  };
+}
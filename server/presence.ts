@@ -0,0 +1,77 @@
+import { WebSocket } from "ws";
+import { storage } from "./storage";
+
+// What GET /api/presence and presence_changed report for one user
+export interface Presence {
+  userId: number;
+  isOnline: boolean;
+  // Only set while offline
+  lastSeenAt: Date | null;
+}
+
+// Open sockets per user; a user is online while they have at least one
+const sockets = new Map<number, WebSocket[]>();
+
+export function getSockets(userId: number): WebSocket[] {
+  return sockets.get(userId) || [];
+}
+
+export function isOnline(userId: number): boolean {
+  return sockets.has(userId);
+}
+
+// Register a socket; true when it is the user's first, i.e. they just came online
+export function addSocket(userId: number, socket: WebSocket): boolean {
+  const userSockets = getSockets(userId);
+  sockets.set(userId, [...userSockets, socket]);
+  return userSockets.length === 0;
+}
+
+// Unregister a socket; when it was the user's last, record lastSeenAt and return it
+export async function removeSocket(userId: number, socket: WebSocket): Promise<Date | null> {
+  const remaining = getSockets(userId).filter(userSocket => userSocket !== socket);
+
+  if (remaining.length > 0) {
+    sockets.set(userId, remaining);
+    return null;
+  }
+
+  sockets.delete(userId);
+  const lastSeenAt = new Date();
+  await storage.updateUser(userId, { lastSeenAt });
+
+  // A socket that connected while lastSeenAt was being saved keeps the user online;
+  // lastSeenAt is only reported while offline, so the stored value does no harm
+  return isOnline(userId) ? null : lastSeenAt;
+}
+
+export async function getPresence(userIds: number[]): Promise<Presence[]> {
+  return Promise.all(userIds.map(async (userId) => {
+    if (isOnline(userId)) {
+      return { userId, isOnline: true, lastSeenAt: null };
+    }
+
+    const user = await storage.getUser(userId);
+    return { userId, isOnline: false, lastSeenAt: user?.lastSeenAt ?? null };
+  }));
+}
+
+// Users who may see someone's presence: their DM partners and fellow group members
+export async function getContactIds(userId: number): Promise<number[]> {
+  const contactIds = new Set<number>();
+
+  const conversations = await storage.getConversationsByUserId(userId);
+  conversations.forEach(conv => {
+    contactIds.add(conv.user1Id);
+    contactIds.add(conv.user2Id);
+  });
+
+  const groups = await storage.getChatGroupsByUserId(userId);
+  for (const group of groups) {
+    const members = await storage.getGroupMembers(group.id);
+    members.forEach(member => contactIds.add(member.userId));
+  }
+
+  contactIds.delete(userId);
+  return Array.from(contactIds);
+}
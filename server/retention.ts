@@ -0,0 +1,105 @@
+import { storage } from "./storage";
+import { retentionConfig } from "./config";
+import type { Message, Status } from "@shared/schema";
+
+const DAY_MS = 86400000;
+
+// setTimeout can't wait much past 24 days; later deadlines are looked at again after a day
+const MAX_EXPIRY_WAIT_MS = DAY_MS;
+
+// Wait before retrying a failed expiry run
+const EXPIRY_RETRY_MS = 60000;
+
+let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+let expiryWakeAt: number | undefined;
+let onMessagesExpired: (messages: Message[]) => void = () => {};
+let onStatusesExpired: (statuses: Status[]) => void = () => {};
+
+function daysAgo(days: number, now: Date) {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+// Purge messages past their chat's retention window, falling back to the deployment default
+export async function purgeExpiredMessages(now = new Date()): Promise<Message[]> {
+  const overrides = await storage.getRetentionOverrides();
+  const purged: Message[] = [];
+
+  for (const settings of overrides) {
+    purged.push(...await storage.purgeMessagesOlderThan(
+      daysAgo(settings.messageRetentionDays!, now),
+      { chatId: settings.chatId }
+    ));
+  }
+
+  if (retentionConfig.messageDays > 0) {
+    purged.push(...await storage.purgeMessagesOlderThan(
+      daysAgo(retentionConfig.messageDays, now),
+      { excludeChatIds: overrides.map(settings => settings.chatId) }
+    ));
+  }
+
+  return purged;
+}
+
+// Wake up by `deadline` to remove disappearing messages, unless already due to wake sooner
+export function scheduleMessageExpiry(deadline: Date) {
+  const now = Date.now();
+  const wakeAt = Math.min(Math.max(deadline.getTime(), now), now + MAX_EXPIRY_WAIT_MS);
+  if (expiryWakeAt !== undefined && expiryWakeAt <= wakeAt) return;
+
+  if (expiryTimer) clearTimeout(expiryTimer);
+  expiryWakeAt = wakeAt;
+  expiryTimer = setTimeout(expireDueMessages, wakeAt - now);
+}
+
+// Remove every disappearing message that is due, then sleep until the next deadline
+async function expireDueMessages() {
+  expiryTimer = undefined;
+  expiryWakeAt = undefined;
+
+  try {
+    const expired = await storage.purgeDisappearedMessages();
+    if (expired.length > 0) {
+      console.log(`Retention: ${expired.length} disappearing messages expired`);
+      onMessagesExpired(expired);
+    }
+
+    const next = await storage.getNextMessageExpiry();
+    if (next) scheduleMessageExpiry(next);
+  } catch (error) {
+    console.error('Message expiry error:', error);
+    scheduleMessageExpiry(new Date(Date.now() + EXPIRY_RETRY_MS));
+  }
+}
+
+// Schedule the message (daily) and status (hourly) retention sweeps, and expire each
+// disappearing message at its own deadline; the callbacks hear about every batch removed
+export function startRetentionJobs(
+  onMessagesRemoved: (messages: Message[]) => void,
+  onStatusesRemoved: (statuses: Status[]) => void
+) {
+  onMessagesExpired = onMessagesRemoved;
+  onStatusesExpired = onStatusesRemoved;
+  // Catch up on anything that came due while the server was down
+  expireDueMessages();
+
+  setInterval(async () => {
+    try {
+      const purged = await purgeExpiredMessages();
+      console.log(`Retention: purged ${purged.length} messages`);
+      if (purged.length > 0) onMessagesExpired(purged);
+    } catch (error) {
+      console.error('Message retention error:', error);
+    }
+  }, DAY_MS);
+
+  setInterval(async () => {
+    try {
+      const purged = await storage.purgeExpiredStatuses();
+      console.log(`Retention: purged ${purged.length} statuses`);
+      if (purged.length > 0) onStatusesExpired(purged);
+    } catch (error) {
+      console.error('Status retention error:', error);
+    }
+  }, 3600000);
+}
@@ -1,12 +1,39 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from 'ws';
-import { storage } from "./storage";
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { storage, encodeCursor, decodeCursor, watermarkCovers, type IStorage } from "./storage";
+import { forwardConfig } from "./config";
+import { startRetentionJobs, scheduleMessageExpiry } from "./retention";
+import { startScheduler, scheduleDelivery } from "./scheduler";
+import { startTyping, stopTyping, stopAllTyping } from "./typing";
+import { addSocket, removeSocket, getSockets, getPresence, getContactIds, isOnline } from "./presence";
+import { setupAuth, requireAuth, issueSocketToken, authenticateUpgrade } from "./auth";
+import { findMentions, mentionedUserIds } from "./mentions";
+import { searchTerms, snippetFor } from "./search";
+import {
+  policy,
+  authorize,
+  disallowedFields,
+  PROFILE_UPDATE_FIELDS,
+  MEMBER_UPDATE_FIELDS
+} from "./policy";
+import { parseChatId, directChatId, canonicalChatId } from "./chat-ids";
+import passport from "passport";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
 import { 
+  User,
+  Message,
+  MessageReaction,
+  MessageMention,
+  InsertMessage,
+  ScheduledMessage,
+  Status,
   insertUserSchema, 
   insertMessageSchema, 
+  insertScheduledMessageSchema,
+  DISAPPEARING_TIMERS,
+  SYSTEM_CONTENT_TYPE,
   insertChatGroupSchema,
   insertGroupMemberSchema,
   insertStatusSchema,
@@ -19,12 +46,179 @@ interface WebSocketClient extends WebSocket {
   userId?: number;
 }
 
-// Create a map of active WebSocket connections
-const clients = new Map<number, WebSocketClient[]>();
+// Cursor strings as returned in `cursors` by GET /api/messages/:chatId
+const cursorSchema = z.string().transform((value, ctx) => {
+  const cursor = decodeCursor(value);
+  if (!cursor) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+    return z.NEVER;
+  }
+  return cursor;
+});
+
+// A chat id from a client, turned into the spelling chats are stored under
+const chatIdSchema = z.string().transform(canonicalChatId);
+
+// Query string for GET /api/messages/:chatId; at most one of before/after/around
+const messageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  before: cursorSchema.optional(),
+  after: cursorSchema.optional(),
+  around: z.coerce.number().int().optional()
+}).refine(
+  (query) => [query.before, query.after, query.around].filter(value => value !== undefined).length <= 1,
+  { message: 'Use only one of before, after or around' }
+);
+
+// Query string for GET /api/search/messages; without chatId every chat of the caller is searched
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  chatId: chatIdSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  before: cursorSchema.optional()
+});
+
+// Frames a client may send over the socket
+const socketFrameSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('send_message'),
+    // Picked by the client and reused on every retry of the same send
+    clientMessageId: z.string().min(1).max(64),
+    chatId: chatIdSchema,
+    content: z.string(),
+    contentType: z.string().optional(),
+    replyToId: z.number().int().optional()
+  }),
+  // Ack of a new_message frame this socket received
+  z.object({
+    type: z.literal('message_delivered'),
+    chatId: chatIdSchema,
+    messageId: z.number().int()
+  }),
+  // Composer activity; the server expires typing_start on its own
+  z.object({
+    type: z.enum(['typing_start', 'typing_stop']),
+    chatId: chatIdSchema
+  })
+]);
+
+type SocketFrame = z.infer<typeof socketFrameSchema>;
+
+// Body of POST /api/chats/:chatId/read; without messageId the whole chat is read
+const markReadSchema = z.object({
+  messageId: z.number().int().optional()
+});
+
+// Body of PATCH /api/users/:id
+const updateProfileSchema = insertUserSchema.pick({ username: true, profilePicture: true, about: true }).partial().strict();
+
+// Body of POST /api/groups/:id/members
+const addMemberSchema = z.object({
+  userId: z.number().int(),
+  isAdmin: z.boolean().default(false),
+  canWrite: z.boolean().default(true)
+}).strict();
+
+// Body of PATCH /api/groups/members/:id
+const updateMemberSchema = z.object({
+  isAdmin: z.boolean(),
+  canWrite: z.boolean()
+}).partial().strict();
+
+// Body of PATCH /api/messages/:id
+const editMessageSchema = z.object({
+  content: z.string().min(1)
+});
+
+// Messages as clients send them; system notices only ever come from the server
+const sendMessageSchema = insertMessageSchema.extend({ chatId: chatIdSchema }).refine(
+  (message) => message.contentType !== SYSTEM_CONTENT_TYPE,
+  { message: 'System messages cannot be sent', path: ['contentType'] }
+);
+
+// Furthest ahead a message can be scheduled
+const MAX_SCHEDULE_AHEAD_MS = 365 * 86400000;
+
+// Body of POST /api/scheduled-messages: a message as POST /api/messages takes it, plus when to send it
+const scheduleMessageSchema = insertScheduledMessageSchema.extend({ chatId: chatIdSchema }).refine(
+  (message) => message.contentType !== SYSTEM_CONTENT_TYPE,
+  { message: 'System messages cannot be sent', path: ['contentType'] }
+).refine(
+  (message) => message.sendAt.getTime() > Date.now(),
+  { message: 'Send time must be in the future', path: ['sendAt'] }
+).refine(
+  (message) => message.sendAt.getTime() <= Date.now() + MAX_SCHEDULE_AHEAD_MS,
+  { message: 'Send time must be within a year', path: ['sendAt'] }
+);
+
+// Query string for GET /api/scheduled-messages
+const scheduledQuerySchema = z.object({
+  chatId: chatIdSchema.optional()
+});
+
+// Body of PUT /api/chats/:chatId/draft; an emptied composer deletes the draft instead
+const draftSchema = z.object({
+  content: z.string().min(1)
+});
+
+// Body of PUT /api/chats/:chatId/disappearing; null turns the timer off
+const disappearingSchema = z.object({
+  seconds: z.union([
+    z.null(),
+    z.number().int().refine(
+      (seconds) => DISAPPEARING_TIMERS.some(timer => timer.seconds === seconds),
+      { message: `Expected one of ${DISAPPEARING_TIMERS.map(timer => timer.seconds).join(', ')}` }
+    )
+  ])
+});
+
+// Body of POST /api/messages/forward: every message is copied into every chat
+const forwardMessagesSchema = z.object({
+  messageIds: z.array(z.number().int()).min(1).max(100),
+  chatIds: z.array(chatIdSchema).min(1).max(20)
+});
+
+// Query string for DELETE /api/messages/:id
+const deleteMessageQuerySchema = z.object({
+  scope: z.enum(['me', 'everyone']).default('me')
+});
+
+// A single emoji, as used in reaction routes
+const emojiSchema = z.string().max(32).refine(
+  (value) => /\p{Extended_Pictographic}/u.test(value) && !/\s/.test(value),
+  { message: 'Expected an emoji' }
+);
+
+// Quoted text in a reply preview is cut to this many characters
+const REPLY_PREVIEW_LENGTH = 100;
+
+// Most messages a chat can have pinned at once
+const MAX_PINNED_MESSAGES = 3;
+
+// Missed messages fetched per page when replaying to a newly connected socket
+const REPLAY_LIMIT = 100;
+
+// Close code for sockets that fail the upgrade authentication
+const WS_CLOSE_UNAUTHORIZED = 4401;
+
+// Close code for sockets whose authentication failed on our side
+const WS_CLOSE_INTERNAL_ERROR = 1011;
+
+// Query string for GET /api/presence: comma-separated user ids
+const presenceQuerySchema = z.object({
+  userIds: z.string().transform((value, ctx) => {
+    const ids = value.split(',').map(Number);
+    if (ids.length > 100 || ids.some(id => !Number.isInteger(id))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected up to 100 comma-separated user ids' });
+      return z.NEVER;
+    }
+    return ids;
+  })
+});
 
 // Helper to send messages to users
 function sendToUser(userId: number, data: any) {
-  const userSockets = clients.get(userId) || [];
+  const userSockets = getSockets(userId);
   
   userSockets.forEach(socket => {
     if (socket.readyState === WebSocket.OPEN) {
@@ -33,13 +227,19 @@ function sendToUser(userId: number, data: any) {
   });
 }
 
-// Helper to broadcast to all clients
-function broadcast(data: any) {
-  clients.forEach((sockets) => {
-    sockets.forEach(socket => {
-      if (socket.readyState === WebSocket.OPEN) {
-        socket.send(JSON.stringify(data));
-      }
+// Tell a user's contacts that they came online or went offline
+async function broadcastPresence(userId: number, lastSeenAt: Date | null) {
+  const contactIds = await getContactIds(userId);
+  
+  // A connect or disconnect while contacts were loading makes this news stale; its own broadcast follows
+  if (isOnline(userId) !== (lastSeenAt === null)) return;
+  
+  contactIds.forEach(contactId => {
+    sendToUser(contactId, {
+      type: 'presence_changed',
+      userId,
+      isOnline: lastSeenAt === null,
+      lastSeenAt
     });
   });
 }
@@ -53,240 +253,1611 @@ async function sendToGroup(groupId: number, data: any) {
   });
 }
 
+// Users who take part in a chat: group members, or both ends of a DM
+async function getChatMemberIds(chatId: string): Promise<number[]> {
+  const chat = parseChatId(chatId);
+  
+  if (chat?.type === 'group') {
+    const members = await storage.getGroupMembers(chat.groupId);
+    return members.map(member => member.userId);
+  }
+  
+  return chat ? Array.from(new Set(chat.userIds)) : [];
+}
+
+// Helper to send to everyone in a chat, optionally leaving one user out
+async function sendToChat(chatId: string, data: any, exceptUserId?: number) {
+  const memberIds = await getChatMemberIds(chatId);
+  
+  memberIds
+    .filter(userId => userId !== exceptUserId)
+    .forEach(userId => {
+      sendToUser(userId, data);
+    });
+}
+
+// Chats a user takes part in: their groups and their DMs
+async function getMemberChatIds(userId: number): Promise<string[]> {
+  const groups = await storage.getChatGroupsByUserId(userId);
+  const conversations = await storage.getConversationsByUserId(userId);
+  
+  return Array.from(new Set([
+    ...groups.map(group => `group_${group.id}`),
+    ...conversations.map(conv => directChatId(conv.user1Id, conv.user2Id))
+  ]));
+}
+
+// Tell the other members of a chat that a user started or stopped typing
+function notifyTyping(chatId: string, userId: number, isTyping: boolean) {
+  storage.getUser(userId)
+    .then(user => sendToChat(chatId, {
+      type: 'typing',
+      chatId,
+      userId,
+      username: user?.username,
+      isTyping
+    }, userId))
+    .catch(error => {
+      console.error('Typing fan-out error:', error);
+    });
+}
+
+// Compact form of a quoted message, attached to replies as `replyTo`
+interface ReplyPreview {
+  id: number;
+  senderId: number;
+  senderName: string | null;
+  content: string;
+  contentType: string | null;
+  isDeleted: boolean;
+}
+
+// Reactions to a message grouped by emoji, in the order each emoji was first used
+interface ReactionSummary {
+  emoji: string;
+  count: number;
+  users: { id: number; username: string | null }[];
+}
+
+// A message as the API returns it; replyTo is null when the quoted message is gone
+type ApiMessage = Message & {
+  replyTo?: ReplyPreview | null;
+  reactions: ReactionSummary[];
+  forwardedManyTimes: boolean;
+};
+
+async function getUsernames(userIds: number[]): Promise<Map<number, string | null>> {
+  const usernames = new Map<number, string | null>();
+  for (const userId of Array.from(new Set(userIds))) {
+    usernames.set(userId, (await storage.getUser(userId))?.username ?? null);
+  }
+  return usernames;
+}
+
+function summarizeReactions(reactions: MessageReaction[], usernames: Map<number, string | null>): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  
+  reactions.forEach(reaction => {
+    let summary = byEmoji.get(reaction.emoji);
+    if (!summary) {
+      summary = { emoji: reaction.emoji, count: 0, users: [] };
+      byEmoji.set(reaction.emoji, summary);
+    }
+    summary.count++;
+    summary.users.push({ id: reaction.userId, username: usernames.get(reaction.userId) ?? null });
+  });
+  
+  return Array.from(byEmoji.values());
+}
+
+// Attach reply previews, reaction summaries and forwarding labels to messages on their way to clients
+async function presentMessages(messages: Message[]): Promise<ApiMessage[]> {
+  const quotedIds = Array.from(new Set(
+    messages.map(message => message.replyToId).filter((id): id is number => id !== null && id !== undefined)
+  ));
+  
+  const quoted = await storage.getMessagesByIds(quotedIds);
+  const reactions = await storage.getReactionsByMessageIds(messages.map(message => message.id));
+  const usernames = await getUsernames([
+    ...quoted.map(message => message.senderId),
+    ...reactions.map(reaction => reaction.userId)
+  ]);
+  
+  const previews = new Map<number, ReplyPreview>(quoted.map(message => [message.id, {
+    id: message.id,
+    senderId: message.senderId,
+    senderName: usernames.get(message.senderId) ?? null,
+    content: message.content.length > REPLY_PREVIEW_LENGTH
+      ? `${message.content.slice(0, REPLY_PREVIEW_LENGTH)}…`
+      : message.content,
+    contentType: message.contentType,
+    isDeleted: !!message.isDeleted
+  }]));
+  
+  const reactionsByMessage = new Map<number, MessageReaction[]>();
+  reactions.forEach(reaction => {
+    reactionsByMessage.set(reaction.messageId, [...(reactionsByMessage.get(reaction.messageId) || []), reaction]);
+  });
+  
+  return messages.map(message => ({
+    ...message,
+    ...(message.replyToId !== null && message.replyToId !== undefined
+      ? { replyTo: previews.get(message.replyToId) ?? null }
+      : {}),
+    reactions: summarizeReactions(reactionsByMessage.get(message.id) || [], usernames),
+    forwardedManyTimes: message.forwardCount > forwardConfig.manyTimesThreshold
+  }));
+}
+
+async function presentMessage(message: Message): Promise<ApiMessage> {
+  const [presented] = await presentMessages([message]);
+  return presented;
+}
+
+// Tell a chat that someone added or removed a reaction, with the message's new totals
+async function sendReactionChanged(message: Message, userId: number, emoji: string, reacted: boolean) {
+  const { reactions } = await presentMessage(message);
+  
+  await sendToChat(message.chatId, {
+    type: 'reaction_changed',
+    chatId: message.chatId,
+    messageId: message.id,
+    userId,
+    emoji,
+    reacted,
+    reactions
+  });
+  
+  return reactions;
+}
+
+// Outcome of a send over REST or the socket
+type SendResult =
+  | { status: 'forbidden' }
+  | { status: 'forbidden_mention' }
+  | { status: 'invalid_reply' }
+  | { status: 'created' | 'duplicate'; message: ApiMessage };
+
+// Mentions in a group text message, or null when someone who isn't an admin uses @all
+async function resolveMentions(senderId: number, chatId: string, content: string, contentType?: string | null): Promise<MessageMention[] | null> {
+  const chat = parseChatId(chatId);
+  if (chat?.type !== 'group' || (contentType ?? 'text') !== 'text') return [];
+  
+  const members = await storage.getGroupMembers(chat.groupId);
+  const users = await Promise.all(members.map(member => storage.getUser(member.userId)));
+  const mentions = findMentions(content, users
+    .filter((user): user is User => !!user)
+    .map(user => ({ userId: user.id, username: user.username })));
+  
+  if (mentions.some(mention => mention.userId === null) && !(await policy.canManageGroup(senderId, chat.groupId))) {
+    return null;
+  }
+  
+  return mentions;
+}
+
+// Tell mentioned members about a message, leaving out the sender and anyone already told
+async function notifyMentioned(message: ApiMessage, alreadyMentioned: MessageMention[] = []) {
+  const memberIds = await getChatMemberIds(message.chatId);
+  const told = new Set(mentionedUserIds(alreadyMentioned, memberIds));
+  const recipients = mentionedUserIds(message.mentions, memberIds)
+    .filter(userId => userId !== message.senderId && !told.has(userId));
+  if (recipients.length === 0) return;
+  
+  const sender = await storage.getUser(message.senderId);
+  
+  recipients.forEach(userId => {
+    sendToUser(userId, {
+      type: 'mentioned',
+      chatId: message.chatId,
+      messageId: message.id,
+      senderId: message.senderId,
+      senderName: sender?.username,
+      message
+    });
+  });
+}
+
+// Store a message and bump its DM conversation; meant to run inside a transaction.
+// Under a disappearing-messages timer the message gets its own deadline (armed by announceMessage
+// after commit); notices never expire.
+async function storeMessage(tx: IStorage, messageData: InsertMessage): Promise<Message> {
+  const settings = await tx.getChatSettings(messageData.chatId);
+  const expiresAt = settings?.disappearingSeconds && messageData.contentType !== SYSTEM_CONTENT_TYPE
+    ? new Date(Date.now() + settings.disappearingSeconds * 1000)
+    : null;
+  
+  const message = await tx.createMessage({ ...messageData, expiresAt });
+  
+  const chat = parseChatId(messageData.chatId);
+  
+  if (chat?.type === 'direct') {
+    const [user1Id, user2Id] = chat.userIds;
+    
+    // Get or create conversation
+    const conversation = await tx.getConversation(user1Id, user2Id);
+    
+    if (!conversation) {
+      await tx.createConversation({
+        user1Id,
+        user2Id
+      });
+    } else {
+      await tx.updateConversationLastMessage(conversation.id);
+    }
+  }
+  
+  return message;
+}
+
+// Emit a stored message to websocket clients in its chat, once the transaction that stored it
+// has committed. A disappearing message's expiry is set up here too, so a rolled back message
+// never wakes the expiry job.
+async function announceMessage(message: Message): Promise<ApiMessage> {
+  if (message.expiresAt) {
+    scheduleMessageExpiry(message.expiresAt);
+  }
+  
+  const sent = await presentMessage(message);
+  
+  await sendToChat(message.chatId, {
+    type: 'new_message',
+    chatId: message.chatId,
+    message: sent
+  });
+  
+  return sent;
+}
+
+// Validate, store and fan out one message; throws ZodError on a bad body
+async function sendChatMessage(senderId: number, body: Record<string, unknown>): Promise<SendResult> {
+  // The sender is always the authenticated user, and only forwarding sets a forward count
+  const messageData = sendMessageSchema.parse({ ...body, senderId, forwardCount: 0 });
+  
+  if (!(await policy.canWriteChat(senderId, messageData.chatId))) {
+    return { status: 'forbidden' };
+  }
+  
+  // A retried send returns the stored message instead of a second copy
+  const findRetried = () => messageData.clientMessageId
+    ? storage.getMessageByClientId(senderId, messageData.clientMessageId)
+    : Promise.resolve(undefined);
+  
+  const retried = await findRetried();
+  if (retried) {
+    return { status: 'duplicate', message: await presentMessage(retried) };
+  }
+  
+  // Only a visible message of the same chat can be quoted
+  if (messageData.replyToId !== null && messageData.replyToId !== undefined) {
+    const quoted = await storage.getMessage(messageData.replyToId);
+    if (!quoted || quoted.chatId !== messageData.chatId || quoted.isDeleted) {
+      return { status: 'invalid_reply' };
+    }
+  }
+  
+  // Mentions are always worked out here rather than taken from the client
+  const mentions = await resolveMentions(senderId, messageData.chatId, messageData.content, messageData.contentType);
+  if (!mentions) {
+    return { status: 'forbidden_mention' };
+  }
+  messageData.mentions = mentions;
+  
+  // Store the message and bump its conversation together
+  let message: Message;
+  try {
+    message = await storage.transaction(tx => storeMessage(tx, messageData));
+  } catch (error) {
+    // A concurrent retry of the same send got there first
+    const retried = await findRetried();
+    if (retried) {
+      return { status: 'duplicate', message: await presentMessage(retried) };
+    }
+    throw error;
+  }
+  
+  // The message replaces the typing indicator
+  stopTyping(messageData.chatId, senderId, notifyTyping);
+  
+  const sent = await announceMessage(message);
+  await notifyMentioned(sent);
+  
+  return { status: 'created', message: sent };
+}
+
+// Why a scheduled message could not go out, as told to its author
+const SCHEDULED_SEND_ERRORS: Record<Exclude<SendResult['status'], 'created' | 'duplicate'>, string> = {
+  forbidden: 'You can no longer send messages to this chat',
+  forbidden_mention: 'Only group admins can mention @all',
+  invalid_reply: 'Replied-to message not found in this chat'
+};
+
+// Send a due scheduled message through the same path as POST /api/messages, then take it off
+// the schedule. Its clientMessageId turns a send repeated after a crash into a duplicate.
+async function deliverScheduled(scheduled: ScheduledMessage) {
+  // Cancelled since the scheduler looked
+  if (!(await storage.getScheduledMessage(scheduled.id))) return;
+  
+  let result: SendResult | undefined;
+  try {
+    result = await sendChatMessage(scheduled.senderId, {
+      chatId: scheduled.chatId,
+      content: scheduled.content,
+      contentType: scheduled.contentType,
+      replyToId: scheduled.replyToId,
+      clientMessageId: `scheduled_${scheduled.id}`
+    });
+  } catch (error) {
+    // Anything but a bad body is worth another try
+    if (!(error instanceof z.ZodError)) throw error;
+    console.error('Scheduled message validation error:', error);
+  }
+  
+  await storage.deleteScheduledMessage(scheduled.id);
+  
+  if (result?.status === 'created' || result?.status === 'duplicate') {
+    sendToUser(scheduled.senderId, {
+      type: 'scheduled_message_sent',
+      chatId: scheduled.chatId,
+      scheduledMessageId: scheduled.id,
+      message: result.message
+    });
+  } else {
+    sendToUser(scheduled.senderId, {
+      type: 'scheduled_message_failed',
+      chatId: scheduled.chatId,
+      scheduledMessageId: scheduled.id,
+      error: result ? SCHEDULED_SEND_ERRORS[result.status] : 'Invalid message'
+    });
+  }
+}
+
+// Tell each chat which of its messages disappeared or passed its retention window
+function announceExpired(expired: Message[]) {
+  const byChat = new Map<string, number[]>();
+  expired.forEach(message => {
+    byChat.set(message.chatId, [...(byChat.get(message.chatId) || []), message.id]);
+  });
+  
+  byChat.forEach((messageIds, chatId) => {
+    sendToChat(chatId, { type: 'messages_expired', chatId, messageIds })
+      .catch(error => console.error('Expired messages notify error:', error));
+  });
+}
+
+// Tell each author's audience which of their statuses expired, as new_status told them it arrived
+function announceExpiredStatuses(expired: Status[]) {
+  const byAuthor = new Map<number, number[]>();
+  expired.forEach(status => {
+    byAuthor.set(status.userId, [...(byAuthor.get(status.userId) || []), status.id]);
+  });
+  
+  byAuthor.forEach((statusIds, userId) => {
+    getContactIds(userId)
+      .then(contactIds => [userId, ...contactIds].forEach(recipientId => {
+        sendToUser(recipientId, { type: 'statuses_expired', userId, statusIds });
+      }))
+      .catch(error => console.error('Expired statuses notify error:', error));
+  });
+}
+
+// Helper to reply on a single socket
+function sendToSocket(socket: WebSocketClient, data: any) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(data));
+  }
+}
+
+// Store a message sent over the socket and ack it with the server copy
+async function handleSendFrame(ws: WebSocketClient, userId: number, frame: Extract<SocketFrame, { type: 'send_message' }>) {
+  const { type, clientMessageId, ...body } = frame;
+  
+  try {
+    const result = await sendChatMessage(userId, { ...body, clientMessageId });
+    
+    if (result.status === 'forbidden') {
+      return sendToSocket(ws, { type: 'message_error', clientMessageId, error: 'Cannot send messages to this chat' });
+    }
+    
+    if (result.status === 'forbidden_mention') {
+      return sendToSocket(ws, { type: 'message_error', clientMessageId, error: 'Only group admins can mention @all' });
+    }
+    
+    if (result.status === 'invalid_reply') {
+      return sendToSocket(ws, { type: 'message_error', clientMessageId, error: 'Replied-to message not found in this chat' });
+    }
+    
+    sendToSocket(ws, { type: 'message_ack', clientMessageId, message: result.message });
+  } catch (error) {
+    console.error('Socket send message error:', error);
+    sendToSocket(ws, { type: 'message_error', clientMessageId, error: 'Error sending message' });
+  }
+}
+
+// Move the recipient's delivery watermark once one of their sockets has the message
+async function handleDeliveredFrame(userId: number, frame: Extract<SocketFrame, { type: 'message_delivered' }>) {
+  try {
+    const message = await storage.getMessage(frame.messageId);
+    if (!message || message.chatId !== frame.chatId || message.senderId === userId) return;
+    if (!(await policy.canReadChat(userId, message.chatId))) return;
+    
+    const delivery = await storage.markChatDelivered(message.chatId, userId, message);
+    
+    // Skip the event when the watermark was already past this message
+    if (delivery.lastDeliveredMessageId === message.id) {
+      await sendToChat(message.chatId, {
+        type: 'messages_delivered',
+        chatId: message.chatId,
+        userId,
+        lastDeliveredMessageId: delivery.lastDeliveredMessageId,
+        lastDeliveredTimestamp: delivery.lastDeliveredTimestamp,
+        deliveredAt: delivery.deliveredAt
+      });
+    }
+  } catch (error) {
+    console.error('Socket delivery ack error:', error);
+  }
+}
+
+// Start or stop a typing indicator for a chat the user can write to
+async function handleTypingFrame(userId: number, frame: Extract<SocketFrame, { type: 'typing_start' | 'typing_stop' }>) {
+  try {
+    if (frame.type === 'typing_stop') {
+      return stopTyping(frame.chatId, userId, notifyTyping);
+    }
+    
+    if (await policy.canWriteChat(userId, frame.chatId)) {
+      startTyping(frame.chatId, userId, notifyTyping);
+    }
+  } catch (error) {
+    console.error('Socket typing error:', error);
+  }
+}
+
+// Push messages that arrived while none of the user's sockets were connected;
+// the client acks them like any other new_message frame
+async function replayUndelivered(ws: WebSocketClient, userId: number) {
+  for (const chatId of await getMemberChatIds(userId)) {
+    const delivery = (await storage.getChatDeliveries(chatId)).find(delivery => delivery.userId === userId);
+    // Without a delivery watermark there is no telling what was missed; only the latest page goes out
+    let after = delivery && { timestamp: delivery.lastDeliveredTimestamp, id: delivery.lastDeliveredMessageId };
+    
+    do {
+      const page = await storage.getMessagesByChatId(chatId, after
+        ? { after, limit: REPLAY_LIMIT, viewerId: userId }
+        : { limit: REPLAY_LIMIT, viewerId: userId });
+      const messages = page?.messages || [];
+      
+      const missed = messages.filter(message => message.senderId !== userId && !message.isDeleted);
+      (await presentMessages(missed))
+        .forEach(message => sendToSocket(ws, { type: 'new_message', chatId, message }));
+      
+      // Keep paging until caught up, unless the socket went away meanwhile
+      const last = messages[messages.length - 1];
+      after = after && page?.hasMoreAfter && last && ws.readyState === WebSocket.OPEN
+        ? { timestamp: last.timestamp!, id: last.id }
+        : undefined;
+    } while (after);
+  }
+}
+
 // Chat API with auto-cleanup functions
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
   
+  // Sessions and passport must be in place before any /api route
+  setupAuth(app);
+  
   // Setup WebSocket server
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
   
-  // Registration endpoint
-  app.post('/api/register', async (req: Request, res: Response) => {
+  // A DM can be named with its user ids in either order; routes only ever see the stored spelling
+  app.param('chatId', (req, _res, next, chatId: string) => {
+    req.params.chatId = canonicalChatId(chatId);
+    next();
+  });
+  
+  // Registration endpoint
+  app.post('/api/register', async (req: Request, res: Response) => {
+    try {
+      // Validate user data
+      const userData = insertUserSchema.parse(req.body);
+      
+      // Check if user with this email already exists
+      const existingUserByEmail = await storage.getUserByEmail(userData.email);
+      if (existingUserByEmail) {
+        return res.status(400).json({ message: 'Email already in use' });
+      }
+      
+      // Check if username is available
+      const existingUserByUsername = await storage.getUserByUsername(userData.username);
+      if (existingUserByUsername) {
+        return res.status(400).json({ message: 'Username already taken' });
+      }
+      
+      // Hash the password
+      const hashedPassword = await bcrypt.hash(userData.password, 10);
+      
+      // Create new user
+      const user = await storage.createUser({
+        ...userData,
+        password: hashedPassword
+      });
+      
+      // Start a session for the new user
+      await new Promise<void>((resolve, reject) => {
+        req.login(user, (err) => (err ? reject(err) : resolve()));
+      });
+      
+      // Remove password from response
+      const { password, ...userWithoutPassword } = user;
+      
+      res.status(201).json(userWithoutPassword);
+    } catch (error) {
+      console.error('Registration error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error creating user' });
+    }
+  });
+  
+  // Login endpoint
+  app.post('/api/login', (req: Request, res: Response, next) => {
+    const { email, password } = req.body;
+    
+    if (!email || !password) {
+      return res.status(400).json({ message: 'Email and password are required' });
+    }
+    
+    passport.authenticate('local', (err: any, user: User | false) => {
+      if (err) {
+        console.error('Login error:', err);
+        return res.status(500).json({ message: 'Error during login' });
+      }
+      
+      if (!user) {
+        return res.status(401).json({ message: 'Invalid credentials' });
+      }
+      
+      req.login(user, (loginErr) => {
+        if (loginErr) {
+          console.error('Login error:', loginErr);
+          return res.status(500).json({ message: 'Error during login' });
+        }
+        
+        // Remove password from response
+        const { password: _, ...userWithoutPassword } = user;
+        
+        res.json(userWithoutPassword);
+      });
+    })(req, res, next);
+  });
+  
+  // Logout endpoint
+  app.post('/api/logout', (req: Request, res: Response) => {
+    req.logout((err) => {
+      if (err) {
+        console.error('Logout error:', err);
+        return res.status(500).json({ message: 'Error during logout' });
+      }
+      
+      req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        res.json({ message: 'Logged out' });
+      });
+    });
+  });
+  
+  // Get the session user
+  app.get('/api/user', requireAuth, (req: Request, res: Response) => {
+    const { password, ...userWithoutPassword } = req.user!;
+    res.json(userWithoutPassword);
+  });
+  
+  // Issue a short-lived token for authenticating the WebSocket upgrade
+  app.post('/api/ws-token', requireAuth, (req: Request, res: Response) => {
+    res.json(issueSocketToken(req.user!.id));
+  });
+  
+  // Get user by id
+  app.get('/api/users/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Remove password from response
+      const { password, ...userWithoutPassword } = user;
+      
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error('Get user error:', error);
+      res.status(500).json({ message: 'Error fetching user' });
+    }
+  });
+  
+  // Update user
+  app.patch('/api/users/:id', requireAuth, authorize(
+    (req) => policy.canEditProfile(req.user!.id, parseInt(req.params.id)),
+    'Cannot update another user'
+  ), async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      
+      // Only whitelisted profile fields can be changed here
+      const rejectedFields = disallowedFields(req.body, PROFILE_UPDATE_FIELDS);
+      if (rejectedFields.length > 0) {
+        return res.status(403).json({ message: `Cannot update fields: ${rejectedFields.join(', ')}` });
+      }
+      const updates = updateProfileSchema.parse(req.body);
+      
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Check if the new username is available
+      if (updates.username && updates.username !== user.username) {
+        const existingUser = await storage.getUserByUsername(updates.username);
+        if (existingUser) {
+          return res.status(400).json({ message: 'Username already taken' });
+        }
+      }
+      
+      const updatedUser = await storage.updateUser(userId, updates);
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Remove password from response
+      const { password, ...userWithoutPassword } = updatedUser;
+      
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error('Update user error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error updating user' });
+    }
+  });
+  
+  // Delete user
+  app.delete('/api/users/:id', requireAuth, authorize(
+    (req) => policy.canEditProfile(req.user!.id, parseInt(req.params.id)),
+    'Cannot delete another user'
+  ), async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const success = await storage.deleteUser(userId);
+      
+      if (!success) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // End the session of the deleted account
+      req.logout(() => {});
+      
+      res.json({ message: 'User deleted successfully' });
+    } catch (error) {
+      console.error('Delete user error:', error);
+      res.status(500).json({ message: 'Error deleting user' });
+    }
+  });
+  
+  // Get messages
+  app.get('/api/messages/:chatId', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
+    try {
+      const chatId = req.params.chatId;
+      const query = messageQuerySchema.parse(req.query);
+      
+      const page = await storage.getMessagesByChatId(chatId, { ...query, viewerId: req.user!.id });
+      if (!page) {
+        return res.status(404).json({ message: 'Message not found in this chat' });
+      }
+      
+      const { messages, hasMoreBefore, hasMoreAfter } = page;
+      
+      res.json({
+        messages: await presentMessages(messages),
+        // hasMore follows the direction being paged; `around` can grow both ways
+        hasMore: query.after ? hasMoreAfter : query.around !== undefined ? hasMoreBefore || hasMoreAfter : hasMoreBefore,
+        hasMoreBefore,
+        hasMoreAfter,
+        cursors: {
+          before: messages.length > 0 ? encodeCursor(messages[0]) : null,
+          after: messages.length > 0 ? encodeCursor(messages[messages.length - 1]) : null
+        }
+      });
+    } catch (error) {
+      console.error('Get messages error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error fetching messages' });
+    }
+  });
+  
+  // Full-text search over the messages of the caller's chats, newest first
+  app.get('/api/search/messages', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const query = searchQuerySchema.parse(req.query);
+      
+      if (query.chatId && !(await policy.canReadChat(userId, query.chatId))) {
+        return res.status(403).json({ message: 'Not a member of this chat' });
+      }
+      
+      const terms = searchTerms(query.q);
+      const chatIds = query.chatId ? [query.chatId] : await getMemberChatIds(userId);
+      
+      // One extra result tells whether there is another page
+      const found = await storage.searchMessages({
+        chatIds,
+        terms,
+        limit: query.limit + 1,
+        before: query.before,
+        viewerId: userId
+      });
+      const page = found.slice(0, query.limit);
+      const presented = await presentMessages(page);
+      
+      res.json({
+        results: presented.map(message => ({ ...message, ...snippetFor(message.content, terms) })),
+        hasMore: found.length > query.limit,
+        cursors: {
+          before: page.length > 0 ? encodeCursor(page[page.length - 1]) : null
+        }
+      });
+    } catch (error) {
+      console.error('Search messages error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error searching messages' });
+    }
+  });
+  
+  // Send message
+  app.post('/api/messages', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const result = await sendChatMessage(req.user!.id, req.body);
+      
+      if (result.status === 'forbidden') {
+        return res.status(403).json({ message: 'Cannot send messages to this chat' });
+      }
+      
+      if (result.status === 'forbidden_mention') {
+        return res.status(403).json({ message: 'Only group admins can mention @all' });
+      }
+      
+      if (result.status === 'invalid_reply') {
+        return res.status(400).json({ message: 'Replied-to message not found in this chat' });
+      }
+      
+      // A retried send gets the original message back
+      res.status(result.status === 'created' ? 201 : 200).json(result.message);
+    } catch (error) {
+      console.error('Send message error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error sending message' });
+    }
+  });
+  
+  // Messages the caller scheduled and that haven't gone out yet, soonest first
+  app.get('/api/scheduled-messages', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { chatId } = scheduledQuerySchema.parse(req.query);
+      res.json(await storage.getScheduledMessages(req.user!.id, chatId));
+    } catch (error) {
+      console.error('Get scheduled messages error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error fetching scheduled messages' });
+    }
+  });
+  
+  // Schedule a message; it is checked now as if sent, and again when the scheduler sends it
+  app.post('/api/scheduled-messages', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const messageData = scheduleMessageSchema.parse({ ...req.body, senderId: userId });
+      
+      if (!(await policy.canWriteChat(userId, messageData.chatId))) {
+        return res.status(403).json({ message: 'Cannot send messages to this chat' });
+      }
+      
+      if (messageData.replyToId !== null && messageData.replyToId !== undefined) {
+        const quoted = await storage.getMessage(messageData.replyToId);
+        if (!quoted || quoted.chatId !== messageData.chatId || quoted.isDeleted) {
+          return res.status(400).json({ message: 'Replied-to message not found in this chat' });
+        }
+      }
+      
+      if (!(await resolveMentions(userId, messageData.chatId, messageData.content, messageData.contentType))) {
+        return res.status(403).json({ message: 'Only group admins can mention @all' });
+      }
+      
+      const scheduled = await storage.createScheduledMessage(messageData);
+      scheduleDelivery(scheduled.sendAt);
+      
+      // The author's other sessions list it too
+      sendToUser(userId, { type: 'scheduled_messages_changed', chatId: scheduled.chatId });
+      
+      res.status(201).json(scheduled);
+    } catch (error) {
+      console.error('Schedule message error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error scheduling message' });
+    }
+  });
+  
+  // Cancel a scheduled message before it goes out
+  app.delete('/api/scheduled-messages/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const scheduled = await storage.getScheduledMessage(parseInt(req.params.id));
+      
+      // Only the author knows the message is scheduled
+      if (!scheduled || scheduled.senderId !== userId) {
+        return res.status(404).json({ message: 'Scheduled message not found' });
+      }
+      
+      if (await storage.deleteScheduledMessage(scheduled.id)) {
+        sendToUser(userId, { type: 'scheduled_messages_changed', chatId: scheduled.chatId });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Cancel scheduled message error:', error);
+      res.status(500).json({ message: 'Error cancelling scheduled message' });
+    }
+  });
+  
+  // The caller's unsent drafts, one per chat
+  app.get('/api/drafts', requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getDrafts(req.user!.id));
+    } catch (error) {
+      console.error('Get drafts error:', error);
+      res.status(500).json({ message: 'Error fetching drafts' });
+    }
+  });
+  
+  // Save what the caller has typed in a chat; their other devices pick it up
+  app.put('/api/chats/:chatId/draft', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { content } = draftSchema.parse(req.body);
+      const draft = await storage.saveDraft(userId, req.params.chatId, content);
+      
+      sendToUser(userId, { type: 'draft_changed', chatId: draft.chatId, draft });
+      
+      res.json(draft);
+    } catch (error) {
+      console.error('Save draft error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error saving draft' });
+    }
+  });
+  
+  // Drop the caller's draft for a chat, e.g. once it was sent
+  app.delete('/api/chats/:chatId/draft', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      
+      if (await storage.deleteDraft(userId, req.params.chatId)) {
+        sendToUser(userId, { type: 'draft_changed', chatId: req.params.chatId, draft: null });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Delete draft error:', error);
+      res.status(500).json({ message: 'Error deleting draft' });
+    }
+  });
+  
+  // Copy messages into other chats; nothing is sent unless every target accepts it
+  app.post('/api/messages/forward', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { messageIds, chatIds } = forwardMessagesSchema.parse(req.body);
+      const userId = req.user!.id;
+      const uniqueIds = Array.from(new Set(messageIds));
+      
+      // Messages the caller deleted for themselves are as good as gone for them
+      const originals = await storage.getMessagesByIds(uniqueIds, userId);
+      if (originals.length !== uniqueIds.length || originals.some(message => message.isDeleted)) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      if (originals.some(message => message.contentType === SYSTEM_CONTENT_TYPE)) {
+        return res.status(400).json({ message: 'System messages cannot be forwarded' });
+      }
+      
+      for (const chatId of Array.from(new Set(originals.map(message => message.chatId)))) {
+        if (!(await policy.canReadChat(userId, chatId))) {
+          return res.status(403).json({ message: 'Not a member of this chat' });
+        }
+      }
+      
+      const targets = Array.from(new Set(chatIds));
+      for (const chatId of targets) {
+        if (!(await policy.canWriteChat(userId, chatId))) {
+          return res.status(403).json({ message: 'Cannot send messages to this chat', chatId });
+        }
+      }
+      
+      // Copies keep the order the originals were sent in
+      const ordered = [...originals].sort((a, b) =>
+        a.timestamp!.getTime() - b.timestamp!.getTime() || a.id - b.id
+      );
+      
+      const copies = await storage.transaction(async (tx) => {
+        const copies: Message[] = [];
+        for (const chatId of targets) {
+          for (const original of ordered) {
+            copies.push(await storeMessage(tx, {
+              senderId: userId,
+              chatId,
+              content: original.content,
+              contentType: original.contentType,
+              forwardCount: original.forwardCount + 1
+            }));
+          }
+        }
+        return copies;
+      });
+      
+      const forwarded: ApiMessage[] = [];
+      for (const copy of copies) {
+        forwarded.push(await announceMessage(copy));
+      }
+      
+      res.status(201).json(forwarded);
+    } catch (error) {
+      console.error('Forward messages error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error forwarding messages' });
+    }
+  });
+  
+  // Edit the text of a message; the previous version is kept as a revision
+  app.patch('/api/messages/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { content } = editMessageSchema.parse(req.body);
+      const message = await storage.getMessage(parseInt(req.params.id));
+      
+      if (!message || message.isDeleted) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      if (!(await policy.canEditMessage(req.user!.id, message))) {
+        return res.status(403).json({ message: 'Only the sender can edit a message' });
+      }
+      
+      if (!policy.isWithinEditWindow(message)) {
+        return res.status(403).json({ message: 'This message can no longer be edited' });
+      }
+      
+      if ((message.contentType ?? 'text') !== 'text') {
+        return res.status(400).json({ message: 'Only text messages can be edited' });
+      }
+      
+      // Nothing changed, so there is no version to keep
+      if (content === message.content) {
+        return res.json(await presentMessage(message));
+      }
+      
+      const mentions = await resolveMentions(message.senderId, message.chatId, content, message.contentType);
+      if (!mentions) {
+        return res.status(403).json({ message: 'Only group admins can mention @all' });
+      }
+      
+      const edited = await storage.editMessage(message.id, content, mentions);
+      if (!edited) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      const presented = await presentMessage(edited);
+      await sendToChat(edited.chatId, {
+        type: 'message_edited',
+        chatId: edited.chatId,
+        message: presented
+      });
+      
+      // Only people newly mentioned by the edit hear about it
+      await notifyMentioned(presented, message.mentions);
+      
+      res.json(presented);
+    } catch (error) {
+      console.error('Edit message error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error editing message' });
+    }
+  });
+  
+  // Delete a message for the caller only (scope=me) or replace it with a tombstone for everyone
+  app.delete('/api/messages/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { scope } = deleteMessageQuerySchema.parse(req.query);
+      const userId = req.user!.id;
+      const message = await storage.getMessage(parseInt(req.params.id));
+      
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      if (!(await policy.canReadChat(userId, message.chatId))) {
+        return res.status(403).json({ message: 'Not a member of this chat' });
+      }
+      
+      if (scope === 'me') {
+        // A hidden message no longer shows among the user's starred messages either
+        await storage.hideMessage(message.id, userId);
+        if (await storage.unstarMessage(message.id, userId)) {
+          sendToUser(userId, { type: 'star_changed', chatId: message.chatId, messageId: message.id, starred: false });
+        }
+        return res.status(204).end();
+      }
+      
+      // Already a tombstone
+      if (message.isDeleted) {
+        return res.status(204).end();
+      }
+      
+      // Admins delete anything in their group; senders only their own, and only for a while
+      if (!(await policy.canModerateMessage(userId, message))) {
+        if (message.senderId !== userId) {
+          return res.status(403).json({ message: 'Only the sender or a group admin can delete a message for everyone' });
+        }
+        
+        if (!policy.isWithinDeleteWindow(message)) {
+          return res.status(403).json({ message: 'This message can no longer be deleted for everyone' });
+        }
+      }
+      
+      await storage.deleteMessage(message.id);
+      const tombstone = await storage.getMessage(message.id);
+      
+      await sendToChat(message.chatId, {
+        type: 'message_deleted',
+        chatId: message.chatId,
+        messageId: message.id,
+        message: tombstone && await presentMessage(tombstone)
+      });
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Delete message error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error deleting message' });
+    }
+  });
+  
+  // React to a message; reacting twice with the same emoji changes nothing
+  app.put('/api/messages/:id/reactions/:emoji', requireAuth, async (req: Request, res: Response) => {
     try {
-      // Validate user data
-      const userData = insertUserSchema.parse(req.body);
+      const emoji = emojiSchema.parse(req.params.emoji);
+      const message = await storage.getMessage(parseInt(req.params.id));
       
-      // Check if user with this email already exists
-      const existingUserByEmail = await storage.getUserByEmail(userData.email);
-      if (existingUserByEmail) {
-        return res.status(400).json({ message: 'Email already in use' });
+      if (!message || message.isDeleted) {
+        return res.status(404).json({ message: 'Message not found' });
       }
       
-      // Check if username is available
-      const existingUserByUsername = await storage.getUserByUsername(userData.username);
-      if (existingUserByUsername) {
-        return res.status(400).json({ message: 'Username already taken' });
+      if (!(await policy.canWriteChat(req.user!.id, message.chatId))) {
+        return res.status(403).json({ message: 'Cannot react in this chat' });
       }
       
-      // Hash the password
-      const hashedPassword = await bcrypt.hash(userData.password, 10);
+      // Reacting twice with the same emoji changes nothing
+      const added = await storage.addReaction(message.id, req.user!.id, emoji);
+      const reactions = added
+        ? await sendReactionChanged(message, req.user!.id, emoji, true)
+        : (await presentMessage(message)).reactions;
       
-      // Create new user
-      const user = await storage.createUser({
-        ...userData,
-        password: hashedPassword
-      });
+      res.json(reactions);
+    } catch (error) {
+      console.error('Add reaction error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error adding reaction' });
+    }
+  });
+  
+  // Take back a reaction
+  app.delete('/api/messages/:id/reactions/:emoji', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const emoji = emojiSchema.parse(req.params.emoji);
+      const message = await storage.getMessage(parseInt(req.params.id));
       
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
+      if (!message || message.isDeleted) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
       
-      res.status(201).json(userWithoutPassword);
+      if (!(await policy.canReadChat(req.user!.id, message.chatId))) {
+        return res.status(403).json({ message: 'Not a member of this chat' });
+      }
+      
+      const removed = await storage.removeReaction(message.id, req.user!.id, emoji);
+      const reactions = removed
+        ? await sendReactionChanged(message, req.user!.id, emoji, false)
+        : (await presentMessage(message)).reactions;
+      
+      res.json(reactions);
     } catch (error) {
-      console.error('Registration error:', error);
+      console.error('Remove reaction error:', error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid data', errors: error.errors });
       }
-      res.status(500).json({ message: 'Error creating user' });
+      res.status(500).json({ message: 'Error removing reaction' });
     }
   });
   
-  // Login endpoint
-  app.post('/api/login', async (req: Request, res: Response) => {
+  // The user's starred messages across all chats, most recently starred first
+  app.get('/api/starred', requireAuth, async (req: Request, res: Response) => {
     try {
-      const { email, password } = req.body;
+      const userId = req.user!.id;
+      const stars = await storage.getStarredMessages(userId);
+      const starred = new Map((await storage.getMessagesByIds(stars.map(star => star.messageId)))
+        .map(message => [message.id, message]));
       
-      if (!email || !password) {
-        return res.status(400).json({ message: 'Email and password are required' });
+      // Chats the user has left since starring stay out of the list
+      const readableChatIds = new Set<string>();
+      for (const chatId of Array.from(new Set(Array.from(starred.values()).map(message => message.chatId)))) {
+        if (await policy.canReadChat(userId, chatId)) readableChatIds.add(chatId);
       }
       
-      // Get user by email
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      const visible = stars.filter(star => {
+        const message = starred.get(star.messageId);
+        return message && readableChatIds.has(message.chatId);
+      });
+      const presented = await presentMessages(visible.map(star => starred.get(star.messageId)!));
+      
+      res.json(presented.map((message, index) => ({ ...message, starredAt: visible[index].starredAt })));
+    } catch (error) {
+      console.error('Get starred messages error:', error);
+      res.status(500).json({ message: 'Error fetching starred messages' });
+    }
+  });
+  
+  // Star a message for yourself; the user's other sessions hear about it
+  app.put('/api/messages/:id/star', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const message = await storage.getMessage(parseInt(req.params.id));
+      
+      if (!message || message.isDeleted) {
+        return res.status(404).json({ message: 'Message not found' });
       }
       
-      // Verify password
-      const isPasswordValid = await bcrypt.compare(password, user.password);
-      if (!isPasswordValid) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      if (!(await policy.canReadChat(userId, message.chatId))) {
+        return res.status(403).json({ message: 'Not a member of this chat' });
       }
       
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
+      if (await storage.starMessage(message.id, userId)) {
+        sendToUser(userId, { type: 'star_changed', chatId: message.chatId, messageId: message.id, starred: true });
+      }
       
-      res.json(userWithoutPassword);
+      res.status(204).end();
     } catch (error) {
-      console.error('Login error:', error);
-      res.status(500).json({ message: 'Error during login' });
+      console.error('Star message error:', error);
+      res.status(500).json({ message: 'Error starring message' });
     }
   });
   
-  // Get current user
-  app.get('/api/users/:id', async (req: Request, res: Response) => {
+  app.delete('/api/messages/:id/star', requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = parseInt(req.params.id);
-      const user = await storage.getUser(userId);
+      const userId = req.user!.id;
+      const message = await storage.getMessage(parseInt(req.params.id));
       
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
       }
       
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
+      if (await storage.unstarMessage(message.id, userId)) {
+        sendToUser(userId, { type: 'star_changed', chatId: message.chatId, messageId: message.id, starred: false });
+      }
       
-      res.json(userWithoutPassword);
+      res.status(204).end();
     } catch (error) {
-      console.error('Get user error:', error);
-      res.status(500).json({ message: 'Error fetching user' });
+      console.error('Unstar message error:', error);
+      res.status(500).json({ message: 'Error unstarring message' });
     }
   });
   
-  // Update user
-  app.patch('/api/users/:id', async (req: Request, res: Response) => {
+  // Pin a message for everyone in its chat, up to MAX_PINNED_MESSAGES per chat
+  app.put('/api/messages/:id/pin', requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = parseInt(req.params.id);
-      const user = await storage.getUser(userId);
+      const userId = req.user!.id;
+      const message = await storage.getMessage(parseInt(req.params.id));
       
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
+      if (!message || message.isDeleted) {
+        return res.status(404).json({ message: 'Message not found' });
       }
       
-      const updatedUser = await storage.updateUser(userId, req.body);
+      if (!(await policy.canPinMessage(userId, message))) {
+        return res.status(403).json({ message: 'Only group admins can pin messages here' });
+      }
       
-      if (!updatedUser) {
-        return res.status(404).json({ message: 'User not found' });
+      // The limit is checked as the pin is stored, so concurrent pins can't go over it
+      if (!(await storage.pinMessage(message.chatId, message.id, userId, MAX_PINNED_MESSAGES))) {
+        const pins = await storage.getPinnedMessages(message.chatId);
+        if (pins.some(pin => pin.messageId === message.id)) {
+          return res.status(204).end();
+        }
+        return res.status(409).json({ message: `A chat can have at most ${MAX_PINNED_MESSAGES} pinned messages` });
       }
       
-      // Remove password from response
-      const { password, ...userWithoutPassword } = updatedUser;
+      await sendToChat(message.chatId, {
+        type: 'pin_changed',
+        chatId: message.chatId,
+        messageId: message.id,
+        userId,
+        pinned: true
+      });
       
-      res.json(userWithoutPassword);
+      res.status(204).end();
     } catch (error) {
-      console.error('Update user error:', error);
-      res.status(500).json({ message: 'Error updating user' });
+      console.error('Pin message error:', error);
+      res.status(500).json({ message: 'Error pinning message' });
     }
   });
   
-  // Delete user
-  app.delete('/api/users/:id', async (req: Request, res: Response) => {
+  app.delete('/api/messages/:id/pin', requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = parseInt(req.params.id);
-      const success = await storage.deleteUser(userId);
+      const userId = req.user!.id;
+      const message = await storage.getMessage(parseInt(req.params.id));
       
-      if (!success) {
-        return res.status(404).json({ message: 'User not found' });
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
       }
       
-      res.json({ message: 'User deleted successfully' });
+      if (!(await policy.canPinMessage(userId, message))) {
+        return res.status(403).json({ message: 'Only group admins can unpin messages here' });
+      }
+      
+      if (await storage.unpinMessage(message.id)) {
+        await sendToChat(message.chatId, {
+          type: 'pin_changed',
+          chatId: message.chatId,
+          messageId: message.id,
+          userId,
+          pinned: false
+        });
+      }
+      
+      res.status(204).end();
     } catch (error) {
-      console.error('Delete user error:', error);
-      res.status(500).json({ message: 'Error deleting user' });
+      console.error('Unpin message error:', error);
+      res.status(500).json({ message: 'Error unpinning message' });
     }
   });
   
-  // Get messages
-  app.get('/api/messages/:chatId', async (req: Request, res: Response) => {
+  // Earlier versions of an edited message, oldest first
+  app.get('/api/messages/:id/revisions', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const message = await storage.getMessage(parseInt(req.params.id));
+      
+      if (!message || message.isDeleted) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      if (!(await policy.canReadChat(req.user!.id, message.chatId))) {
+        return res.status(403).json({ message: 'Not a member of this chat' });
+      }
+      
+      const revisions = await storage.getMessageRevisions(message.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error('Get revisions error:', error);
+      res.status(500).json({ message: 'Error fetching message history' });
+    }
+  });
+  
+  // Get chat settings
+  app.get('/api/chats/:chatId/settings', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
     try {
       const chatId = req.params.chatId;
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const settings = await storage.getChatSettings(chatId);
       
-      const messages = await storage.getMessagesByChatId(chatId, limit);
-      res.json(messages);
+      res.json(settings || { chatId, messageRetentionDays: null, disappearingSeconds: null });
     } catch (error) {
-      console.error('Get messages error:', error);
-      res.status(500).json({ message: 'Error fetching messages' });
+      console.error('Get chat settings error:', error);
+      res.status(500).json({ message: 'Error fetching chat settings' });
     }
   });
   
-  // Send message
-  app.post('/api/messages', async (req: Request, res: Response) => {
+  // Override (or reset with null) how long a chat keeps its messages
+  app.put('/api/chats/:chatId/retention', requireAuth, authorize(
+    (req) => policy.canManageChat(req.user!.id, req.params.chatId),
+    'Only group admins can change retention'
+  ), async (req: Request, res: Response) => {
     try {
-      const messageData = insertMessageSchema.parse(req.body);
+      const { days } = z.object({
+        days: z.number().int().positive().nullable()
+      }).parse(req.body);
       
-      // Create message
-      const message = await storage.createMessage(messageData);
+      const settings = await storage.upsertChatSettings(req.params.chatId, {
+        messageRetentionDays: days
+      });
       
-      // Emit to websocket clients
-      if (messageData.chatId.startsWith('group_')) {
-        // Group message
-        const groupId = parseInt(messageData.chatId.replace('group_', ''));
-        const group = await storage.getChatGroup(groupId);
-        
-        if (group) {
-          await sendToGroup(groupId, {
-            type: 'new_message',
-            chatId: messageData.chatId,
-            message
-          });
-        }
-      } else {
-        // Direct message
-        const parts = messageData.chatId.split('_');
-        if (parts.length === 2) {
-          const user1Id = parseInt(parts[0]);
-          const user2Id = parseInt(parts[1]);
-          
-          sendToUser(user1Id, {
-            type: 'new_message',
-            chatId: messageData.chatId,
-            message
-          });
-          
-          sendToUser(user2Id, {
-            type: 'new_message',
-            chatId: messageData.chatId,
-            message
-          });
-          
-          // Get or create conversation
-          let conversation = await storage.getConversation(user1Id, user2Id);
-          
-          if (!conversation) {
-            conversation = await storage.createConversation({
-              user1Id,
-              user2Id
-            });
-          } else {
-            await storage.updateConversationLastMessage(conversation.id);
-          }
-        }
+      res.json(settings);
+    } catch (error) {
+      console.error('Update retention error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error updating retention' });
+    }
+  });
+  
+  // Turn a chat's disappearing-messages timer on, change it or turn it off (null).
+  // Only messages sent afterwards expire; the change shows in the timeline as a notice.
+  app.put('/api/chats/:chatId/disappearing', requireAuth, authorize(
+    (req) => policy.canManageChat(req.user!.id, req.params.chatId),
+    'Only group admins can change disappearing messages'
+  ), async (req: Request, res: Response) => {
+    try {
+      const { seconds } = disappearingSchema.parse(req.body);
+      const chatId = req.params.chatId;
+      const userId = req.user!.id;
+      
+      const current = await storage.getChatSettings(chatId);
+      if (current && (current.disappearingSeconds ?? null) === seconds) {
+        return res.json(current);
+      }
+      if (!current && seconds === null) {
+        return res.json({ chatId, messageRetentionDays: null, disappearingSeconds: null });
+      }
+      
+      const user = await storage.getUser(userId);
+      const label = DISAPPEARING_TIMERS.find(timer => timer.seconds === seconds)?.label;
+      const content = label
+        ? `${user?.username} turned on disappearing messages. New messages will disappear ${label} after they're sent.`
+        : `${user?.username} turned off disappearing messages.`;
+      
+      // The timer and its notice change together
+      const [settings, notice] = await storage.transaction(async (tx) => {
+        const settings = await tx.upsertChatSettings(chatId, { disappearingSeconds: seconds });
+        const notice = await storeMessage(tx, {
+          senderId: userId,
+          chatId,
+          content,
+          contentType: SYSTEM_CONTENT_TYPE
+        });
+        return [settings, notice] as const;
+      });
+      
+      await sendToChat(chatId, { type: 'chat_settings_changed', chatId, settings });
+      await announceMessage(notice);
+      
+      res.json(settings);
+    } catch (error) {
+      console.error('Update disappearing messages error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error updating disappearing messages' });
+    }
+  });
+  
+  // Mark a chat read up to a message (default: the newest one)
+  app.post('/api/chats/:chatId/read', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
+    try {
+      const chatId = req.params.chatId;
+      const { messageId } = markReadSchema.parse(req.body);
+      
+      const message = messageId !== undefined
+        ? await storage.getMessage(messageId)
+        : (await storage.getMessagesByChatId(chatId, { limit: 1, viewerId: req.user!.id }))?.messages[0];
+      
+      // An empty chat has nothing to read yet
+      if (!message && messageId === undefined) {
+        return res.status(204).end();
+      }
+      
+      // A deleted message's tombstone still marks a place in the timeline
+      if (!message || message.chatId !== chatId) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      
+      const read = await storage.markChatRead(chatId, req.user!.id, message);
+      
+      // Skip the event when the watermark was already past this message
+      if (read.lastReadMessageId === message.id) {
+        await sendToChat(chatId, {
+          type: 'messages_read',
+          chatId,
+          userId: read.userId,
+          lastReadMessageId: read.lastReadMessageId,
+          lastReadTimestamp: read.lastReadTimestamp,
+          readAt: read.readAt
+        });
       }
       
-      res.status(201).json(message);
+      res.json(read);
     } catch (error) {
-      console.error('Send message error:', error);
+      console.error('Mark read error:', error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid data', errors: error.errors });
       }
-      res.status(500).json({ message: 'Error sending message' });
+      res.status(500).json({ message: 'Error marking chat as read' });
     }
   });
   
-  // Create chat group
-  app.post('/api/groups', async (req: Request, res: Response) => {
+  // Read watermarks of every member of a chat
+  app.get('/api/chats/:chatId/reads', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
+    try {
+      const reads = await storage.getChatReads(req.params.chatId);
+      res.json(reads);
+    } catch (error) {
+      console.error('Get chat reads error:', error);
+      res.status(500).json({ message: 'Error fetching read receipts' });
+    }
+  });
+  
+  // Pinned messages of a chat, oldest pin first
+  app.get('/api/chats/:chatId/pins', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
+    try {
+      const pins = await storage.getPinnedMessages(req.params.chatId);
+      const pinned = new Map((await storage.getMessagesByIds(pins.map(pin => pin.messageId)))
+        .map(message => [message.id, message]));
+      
+      const present = pins.filter(pin => pinned.has(pin.messageId));
+      const presented = await presentMessages(present.map(pin => pinned.get(pin.messageId)!));
+      
+      res.json(presented.map((message, index) => ({
+        ...message,
+        pinnedAt: present[index].pinnedAt,
+        pinnedBy: present[index].pinnedBy
+      })));
+    } catch (error) {
+      console.error('Get pinned messages error:', error);
+      res.status(500).json({ message: 'Error fetching pinned messages' });
+    }
+  });
+  
+  // Messages past the caller's read watermark that mention them, oldest first
+  app.get('/api/chats/:chatId/mentions', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const read = (await storage.getChatReads(req.params.chatId)).find(read => read.userId === userId);
+      const after = read ? { id: read.lastReadMessageId, timestamp: read.lastReadTimestamp } : undefined;
+      
+      const mentions = await storage.getMentions(req.params.chatId, userId, after);
+      res.json(await presentMessages(mentions));
+    } catch (error) {
+      console.error('Get mentions error:', error);
+      res.status(500).json({ message: 'Error fetching mentions' });
+    }
+  });
+  
+  // Delivery watermarks of every member of a chat
+  app.get('/api/chats/:chatId/deliveries', requireAuth, authorize(
+    (req) => policy.canReadChat(req.user!.id, req.params.chatId),
+    'Not a member of this chat'
+  ), async (req: Request, res: Response) => {
+    try {
+      const deliveries = await storage.getChatDeliveries(req.params.chatId);
+      res.json(deliveries);
+    } catch (error) {
+      console.error('Get chat deliveries error:', error);
+      res.status(500).json({ message: 'Error fetching delivery receipts' });
+    }
+  });
+  
+  // Delivery state of a message: "read by N of M" plus the per-member breakdown
+  app.get('/api/messages/:id/receipts', requireAuth, async (req: Request, res: Response) => {
     try {
-      const groupData = insertChatGroupSchema.parse(req.body);
+      const message = await storage.getMessage(parseInt(req.params.id));
+      
+      if (!message || message.isDeleted) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
       
-      // Create group
-      const group = await storage.createChatGroup(groupData);
+      if (!(await policy.canReadChat(req.user!.id, message.chatId))) {
+        return res.status(403).json({ message: 'Not a member of this chat' });
+      }
+      
+      const recipientIds = (await getChatMemberIds(message.chatId))
+        .filter(userId => userId !== message.senderId);
+      const reads = await storage.getChatReads(message.chatId);
+      const deliveries = await storage.getChatDeliveries(message.chatId);
+      
+      const members = recipientIds.map(userId => {
+        const read = reads.find(read => read.userId === userId);
+        const delivery = deliveries.find(delivery => delivery.userId === userId);
+        
+        const isRead = watermarkCovers(read && { timestamp: read.lastReadTimestamp, id: read.lastReadMessageId }, message);
+        const hasDelivery = watermarkCovers(
+          delivery && { timestamp: delivery.lastDeliveredTimestamp, id: delivery.lastDeliveredMessageId },
+          message
+        );
+        
+        // Having read it implies it arrived
+        const isDelivered = isRead || hasDelivery;
+        
+        return {
+          userId,
+          status: isRead ? 'read' : isDelivered ? 'delivered' : 'sent',
+          deliveredAt: hasDelivery ? delivery!.deliveredAt : isRead ? read!.readAt : null,
+          readAt: isRead ? read!.readAt : null
+        };
+      });
+      
+      res.json({
+        messageId: message.id,
+        readCount: members.filter(member => member.status === 'read').length,
+        deliveredCount: members.filter(member => member.status !== 'sent').length,
+        recipientCount: members.length,
+        members
+      });
+    } catch (error) {
+      console.error('Get receipts error:', error);
+      res.status(500).json({ message: 'Error fetching read receipts' });
+    }
+  });
+  
+  // Create chat group
+  app.post('/api/groups', requireAuth, async (req: Request, res: Response) => {
+    try {
+      // The creator is always the session user
+      const groupData = insertChatGroupSchema.parse({ ...req.body, creatorId: req.user!.id });
       
-      // Add creator as admin
-      await storage.addGroupMember({
-        groupId: group.id,
-        userId: groupData.creatorId,
-        isAdmin: true,
-        canWrite: true
+      // Create the group and its first admin together
+      const group = await storage.transaction(async (tx) => {
+        const group = await tx.createChatGroup(groupData);
+        
+        // Add creator as admin
+        await tx.addGroupMember({
+          groupId: group.id,
+          userId: groupData.creatorId,
+          isAdmin: true,
+          canWrite: true
+        });
+        
+        return group;
       });
       
       res.status(201).json(group);
@@ -300,7 +1871,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get group details
-  app.get('/api/groups/:id', async (req: Request, res: Response) => {
+  app.get('/api/groups/:id', requireAuth, authorize(
+    (req) => policy.isGroupMember(req.user!.id, parseInt(req.params.id)),
+    'Not a member of this group'
+  ), async (req: Request, res: Response) => {
     try {
       const groupId = parseInt(req.params.id);
       const group = await storage.getChatGroup(groupId);
@@ -320,7 +1894,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get user's groups
-  app.get('/api/users/:id/groups', async (req: Request, res: Response) => {
+  app.get('/api/users/:id/groups', requireAuth, authorize(
+    (req) => policy.canViewUserChats(req.user!.id, parseInt(req.params.id))
+  ), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.id);
       const groups = await storage.getChatGroupsByUserId(userId);
@@ -332,10 +1908,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Add member to group
-  app.post('/api/groups/:id/members', async (req: Request, res: Response) => {
+  app.post('/api/groups/:id/members', requireAuth, authorize(
+    (req) => policy.canManageGroup(req.user!.id, parseInt(req.params.id)),
+    'Only group admins can add members'
+  ), async (req: Request, res: Response) => {
     try {
       const groupId = parseInt(req.params.id);
-      const { userId, isAdmin = false, canWrite = true } = req.body;
+      const { userId, isAdmin, canWrite } = addMemberSchema.parse(req.body);
       
       // Check if group exists
       const group = await storage.getChatGroup(groupId);
@@ -374,17 +1953,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(201).json(member);
     } catch (error) {
       console.error('Add member error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
       res.status(500).json({ message: 'Error adding member' });
     }
   });
   
   // Update group member
-  app.patch('/api/groups/members/:id', async (req: Request, res: Response) => {
+  app.patch('/api/groups/members/:id', requireAuth, authorize(
+    (req) => policy.canManageMember(req.user!.id, parseInt(req.params.id)),
+    'Only group admins can update members'
+  ), async (req: Request, res: Response) => {
     try {
       const memberId = parseInt(req.params.id);
-      const { isAdmin, canWrite } = req.body;
       
-      const updatedMember = await storage.updateGroupMember(memberId, { isAdmin, canWrite });
+      const rejectedFields = disallowedFields(req.body, MEMBER_UPDATE_FIELDS);
+      if (rejectedFields.length > 0) {
+        return res.status(403).json({ message: `Cannot update fields: ${rejectedFields.join(', ')}` });
+      }
+      
+      const memberData = updateMemberSchema.parse(req.body);
+      
+      const updatedMember = await storage.updateGroupMember(memberId, memberData);
       
       if (!updatedMember) {
         return res.status(404).json({ message: 'Member not found' });
@@ -400,23 +1991,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedMember);
     } catch (error) {
       console.error('Update member error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
       res.status(500).json({ message: 'Error updating member' });
     }
   });
   
   // Create status
-  app.post('/api/statuses', async (req: Request, res: Response) => {
+  app.post('/api/statuses', requireAuth, async (req: Request, res: Response) => {
     try {
-      const statusData = insertStatusSchema.parse(req.body);
+      // Statuses can only be posted as the session user
+      if (req.body.userId !== undefined && Number(req.body.userId) !== req.user!.id) {
+        return res.status(403).json({ message: 'userId does not match the authenticated user' });
+      }
+      
+      const statusData = insertStatusSchema.parse({ ...req.body, userId: req.user!.id });
       
       // Create status
       const status = await storage.createStatus(statusData);
       
-      // Broadcast new status to all clients
-      broadcast({
-        type: 'new_status',
-        userId: statusData.userId,
-        status
+      // Only the poster and the people who may see their statuses hear about it
+      [statusData.userId, ...(await getContactIds(statusData.userId))].forEach(userId => {
+        sendToUser(userId, {
+          type: 'new_status',
+          userId: statusData.userId,
+          status
+        });
       });
       
       res.status(201).json(status);
@@ -430,7 +2031,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get user statuses
-  app.get('/api/users/:id/statuses', async (req: Request, res: Response) => {
+  app.get('/api/users/:id/statuses', requireAuth, authorize(
+    (req) => policy.canViewStatusesOf(req.user!.id, parseInt(req.params.id)),
+    'Cannot view this user\'s statuses'
+  ), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.id);
       const statuses = await storage.getStatusesByUserId(userId);
@@ -442,10 +2046,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get all active statuses
-  app.get('/api/statuses', async (req: Request, res: Response) => {
+  app.get('/api/statuses', requireAuth, async (req: Request, res: Response) => {
     try {
       const statuses = await storage.getActiveStatuses();
-      res.json(statuses);
+      res.json(await policy.visibleStatuses(req.user!.id, statuses));
     } catch (error) {
       console.error('Get all statuses error:', error);
       res.status(500).json({ message: 'Error fetching statuses' });
@@ -453,10 +2057,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // View status
-  app.post('/api/statuses/:id/views', async (req: Request, res: Response) => {
+  app.post('/api/statuses/:id/views', requireAuth, async (req: Request, res: Response) => {
     try {
       const statusId = parseInt(req.params.id);
-      const { viewerId } = req.body;
+      const viewerId = req.user!.id;
       
       // Check if status exists
       const status = await storage.getStatus(statusId);
@@ -464,6 +2068,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Status not found' });
       }
       
+      if (!(await policy.canViewStatusesOf(viewerId, status.userId))) {
+        return res.status(403).json({ message: 'Cannot view this status' });
+      }
+      
       // Record the view
       const view = await storage.addStatusView({
         statusId,
@@ -486,7 +2094,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get status views
-  app.get('/api/statuses/:id/views', async (req: Request, res: Response) => {
+  app.get('/api/statuses/:id/views', requireAuth, authorize(
+    (req) => policy.canViewStatusViews(req.user!.id, parseInt(req.params.id)),
+    'Only the status owner can see its views'
+  ), async (req: Request, res: Response) => {
     try {
       const statusId = parseInt(req.params.id);
       const views = await storage.getStatusViews(statusId);
@@ -498,7 +2109,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get user conversations
-  app.get('/api/users/:id/conversations', async (req: Request, res: Response) => {
+  app.get('/api/users/:id/conversations', requireAuth, authorize(
+    (req) => policy.canViewUserChats(req.user!.id, parseInt(req.params.id))
+  ), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.id);
       const conversations = await storage.getConversationsByUserId(userId);
@@ -531,81 +2144,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Online state and last-seen time for a batch of users; only the caller's contacts are reported
+  app.get('/api/presence', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { userIds } = presenceQuerySchema.parse(req.query);
+      const contactIds = new Set(await getContactIds(req.user!.id));
+      
+      const presence = await getPresence(
+        userIds.filter(userId => userId === req.user!.id || contactIds.has(userId))
+      );
+      
+      res.json(presence);
+    } catch (error) {
+      console.error('Get presence error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid query', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Error fetching presence' });
+    }
+  });
+  
   // WebSocket connection handling
-  wss.on('connection', (ws: WebSocketClient) => {
-    console.log('WebSocket client connected');
+  wss.on('connection', async (ws: WebSocketClient, req) => {
+    // Set once the upgrade request is authenticated
+    let userId: number | undefined;
+    // Frames that arrive while the upgrade is still being authenticated, handled in order afterwards
+    const pendingFrames: RawData[] = [];
+    // Frames are handled one after another, in the order the socket received them
+    let frameQueue = Promise.resolve();
     
-    // Handle authentication message
-    ws.on('message', (message: string) => {
+    // Handle frames from the client
+    const handleFrame = async (userId: number, raw: RawData) => {
+      let data: unknown;
       try {
-        const data = JSON.parse(message);
-        
-        // Handle different message types
-        if (data.type === 'auth') {
-          const userId = data.userId;
-          ws.userId = userId;
-          
-          // Add to clients map
-          if (!clients.has(userId)) {
-            clients.set(userId, []);
-          }
-          clients.get(userId)?.push(ws);
-          
-          console.log(`User ${userId} authenticated via WebSocket`);
-          
-          // Send confirmation
-          ws.send(JSON.stringify({ type: 'auth_success' }));
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
+        data = JSON.parse(raw.toString());
+      } catch {
+        return sendToSocket(ws, { type: 'error', error: 'Invalid JSON' });
       }
+      
+      const parsed = socketFrameSchema.safeParse(data);
+      if (!parsed.success) {
+        // Let the client fail the pending send this frame belonged to
+        const clientMessageId = typeof data === 'object' && data !== null && 'clientMessageId' in data
+          ? data.clientMessageId
+          : undefined;
+        return sendToSocket(ws, typeof clientMessageId === 'string'
+          ? { type: 'message_error', clientMessageId, error: 'Invalid frame' }
+          : { type: 'error', error: 'Invalid frame' });
+      }
+      
+      switch (parsed.data.type) {
+        case 'send_message':
+          await handleSendFrame(ws, userId, parsed.data);
+          break;
+        case 'message_delivered':
+          await handleDeliveredFrame(userId, parsed.data);
+          break;
+        case 'typing_start':
+        case 'typing_stop':
+          await handleTypingFrame(userId, parsed.data);
+          break;
+      }
+    };
+    
+    const queueFrame = (userId: number, raw: RawData) => {
+      frameQueue = frameQueue
+        .then(() => handleFrame(userId, raw))
+        .catch(error => {
+          console.error('Socket frame error:', error);
+        });
+    };
+    
+    // Listen right away so nothing the client sends during authentication is lost
+    ws.on('message', (raw) => {
+      if (userId === undefined) {
+        pendingFrames.push(raw);
+        return;
+      }
+      queueFrame(userId, raw);
     });
     
     // Handle disconnection
-    ws.on('close', () => {
-      if (ws.userId) {
-        // Remove socket from clients map
-        const userSockets = clients.get(ws.userId) || [];
-        const newUserSockets = userSockets.filter(socket => socket !== ws);
+    ws.on('close', async () => {
+      // A socket that never authenticated was never counted
+      if (userId === undefined) return;
+      
+      try {
+        // The last socket closing takes the user offline
+        const lastSeenAt = await removeSocket(userId, ws);
         
-        if (newUserSockets.length > 0) {
-          clients.set(ws.userId, newUserSockets);
-        } else {
-          clients.delete(ws.userId);
+        if (lastSeenAt) {
+          // Nobody left to keep typing
+          stopAllTyping(userId, notifyTyping);
+          await broadcastPresence(userId, lastSeenAt);
         }
         
-        console.log(`User ${ws.userId} disconnected`);
+        console.log(`User ${userId} disconnected`);
+      } catch (error) {
+        console.error('Disconnect error:', error);
       }
     });
-  });
-  
-  // Schedule cleanup jobs
-  
-  // 1. Auto-delete messages after 10 days
-  setInterval(async () => {
-    const tenDaysAgo = new Date();
-    tenDaysAgo.setDate(tenDaysAgo.getDate() - 10);
     
-    // In a real database, we would use a query to find and delete
-    // For now, we'll mark messages as deleted
-    for (const [id, message] of storage.messages.entries()) {
-      if (message.timestamp < tenDaysAgo && !message.isDeleted) {
-        await storage.deleteMessage(id);
-      }
+    // Identity comes from the upgrade request, never from a frame
+    let authenticatedId: number | undefined;
+    try {
+      authenticatedId = await authenticateUpgrade(req);
+    } catch (error) {
+      console.error('WebSocket authentication error:', error);
+      ws.close(WS_CLOSE_INTERNAL_ERROR, 'Internal error');
+      return;
     }
-  }, 86400000); // Run daily
-  
-  // 2. Auto-delete statuses after 3 days
-  setInterval(async () => {
-    const now = new Date();
     
-    // In a real database, we would use a query to find and delete
-    for (const [id, status] of storage.statuses.entries()) {
-      if (status.expiresAt && status.expiresAt < now) {
-        await storage.deleteStatus(id);
-      }
+    if (!authenticatedId) {
+      ws.close(WS_CLOSE_UNAUTHORIZED, 'Unauthorized');
+      return;
+    }
+    
+    // The client may have gone away while the session was loading
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    userId = ws.userId = authenticatedId;
+    
+    // The first socket brings the user online
+    if (addSocket(userId, ws)) {
+      broadcastPresence(userId, null).catch(error => {
+        console.error('Presence broadcast error:', error);
+      });
+    }
+    
+    console.log(`User ${userId} authenticated via WebSocket`);
+    
+    // Send confirmation
+    ws.send(JSON.stringify({ type: 'auth_success', userId }));
+    
+    replayUndelivered(ws, userId).catch(error => {
+      console.error('Replay undelivered error:', error);
+    });
+    
+    for (const raw of pendingFrames.splice(0)) {
+      queueFrame(userId, raw);
     }
-  }, 3600000); // Run hourly
+  });
+  
+  // Expire old messages and statuses through the storage retention API, and tell
+  // the people who could see them as they go
+  startRetentionJobs(announceExpired, announceExpiredStatuses);
+  
+  // Send scheduled messages as they come due, including any missed while the server was down
+  startScheduler(deliverScheduled);
   
   return httpServer;
 }
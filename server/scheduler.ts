@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import type { ScheduledMessage } from "@shared/schema";
+
+// setTimeout can't wait much past 24 days; later send times are looked at again after a day
+const MAX_WAIT_MS = 86400000;
+
+// Wait before retrying after a failed delivery run
+const RETRY_MS = 60000;
+
+let deliveryTimer: ReturnType<typeof setTimeout> | undefined;
+let deliveryWakeAt: number | undefined;
+let deliverMessage: (scheduled: ScheduledMessage) => Promise<void> = async () => {};
+
+// Wake up by `sendAt` to send scheduled messages, unless already due to wake sooner
+export function scheduleDelivery(sendAt: Date) {
+  const now = Date.now();
+  const wakeAt = Math.min(Math.max(sendAt.getTime(), now), now + MAX_WAIT_MS);
+  if (deliveryWakeAt !== undefined && deliveryWakeAt <= wakeAt) return;
+
+  if (deliveryTimer) clearTimeout(deliveryTimer);
+  deliveryWakeAt = wakeAt;
+  deliveryTimer = setTimeout(deliverDueMessages, wakeAt - now);
+}
+
+// Send every scheduled message that is due, then sleep until the next send time.
+// A message that fails to send stays scheduled and is tried again after RETRY_MS.
+async function deliverDueMessages() {
+  deliveryTimer = undefined;
+  deliveryWakeAt = undefined;
+
+  let failed = false;
+  try {
+    for (const scheduled of await storage.getDueScheduledMessages()) {
+      try {
+        await deliverMessage(scheduled);
+      } catch (error) {
+        console.error('Scheduled message delivery error:', error);
+        failed = true;
+      }
+    }
+
+    const next = await storage.getNextScheduledSendAt();
+    if (next) scheduleDelivery(failed ? new Date(Math.max(next.getTime(), Date.now() + RETRY_MS)) : next);
+  } catch (error) {
+    console.error('Scheduled message lookup error:', error);
+    scheduleDelivery(new Date(Date.now() + RETRY_MS));
+  }
+}
+
+// Start sending scheduled messages as they come due; `deliver` sends one and removes it
+// from the schedule. Messages that came due while the server was down go out right away.
+export function startScheduler(deliver: (scheduled: ScheduledMessage) => Promise<void>) {
+  deliverMessage = deliver;
+  deliverDueMessages();
+}
@@ -0,0 +1,60 @@
+// Most terms a search query may have; extra words are ignored
+export const MAX_SEARCH_TERMS = 8;
+
+// Characters of context kept around the first match in a snippet
+const SNIPPET_BEFORE = 30;
+const SNIPPET_AFTER = 90;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// A highlighted range of a snippet, like a mention's range in message content
+export interface SearchHighlight {
+  offset: number;
+  length: number;
+}
+
+export interface SearchSnippet {
+  snippet: string;
+  highlights: SearchHighlight[];
+}
+
+// Lowercased words of a text, in order; the unit both the index and queries work in
+export function tokenize(text: string): string[] {
+  return Array.from(text.toLowerCase().matchAll(WORD), match => match[0]);
+}
+
+// Distinct terms of a search query; each must start a word of a matching message
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query))).slice(0, MAX_SEARCH_TERMS);
+}
+
+// A window of content around the first matching word, with every matching word in it highlighted
+export function snippetFor(content: string, terms: string[]): SearchSnippet {
+  const matches = Array.from(content.matchAll(WORD))
+    .filter(match => terms.some(term => match[0].toLowerCase().startsWith(term)))
+    .map(match => ({ offset: match.index!, length: match[0].length }));
+
+  const first = matches[0]?.offset ?? 0;
+  let start = Math.max(0, first - SNIPPET_BEFORE);
+  let end = Math.min(content.length, first + SNIPPET_AFTER);
+
+  // Don't cut words in half at either end
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    start = space !== -1 && space < first ? space + 1 : start;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    end = space > first ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+
+  return {
+    snippet: prefix + content.slice(start, end) + suffix,
+    highlights: matches
+      .filter(match => match.offset >= start && match.offset + match.length <= end)
+      .map(match => ({ offset: match.offset - start + prefix.length, length: match.length }))
+  };
+}
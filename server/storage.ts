@@ -1,12 +1,88 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { 
   User, InsertUser, 
-  Message, InsertMessage, 
+  Message, InsertMessage, MessageMention,
   ChatGroup, InsertChatGroup,
   GroupMember, InsertGroupMember,
   Status, InsertStatus,
   StatusView, InsertStatusView,
-  Conversation, InsertConversation
+  Conversation, InsertConversation,
+  ChatSettings, InsertChatSettings,
+  ChatRead,
+  ChatDelivery,
+  MessageRevision,
+  HiddenMessage,
+  MessageReaction,
+  StarredMessage,
+  PinnedMessage,
+  ScheduledMessage, InsertScheduledMessage,
+  MessageDraft
 } from "@shared/schema";
+import { db } from "./db";
+import { DrizzleStorage } from "./drizzle-storage";
+import { SnapshotJournal, Snapshot } from "./journal";
+import { MemIndexes, lowerBound, walkTimeline, compareEntries, pairKey, clientKey, reactionKey, TableName, TableRow } from "./mem-indexes";
+import { retentionConfig } from "./config";
+import { canonicalChatId } from "./chat-ids";
+
+// Position in a chat's timeline; messages are ordered by (timestamp, id)
+export interface MessageCursor {
+  timestamp: Date;
+  id: number;
+}
+
+// Which slice of a chat's history to load
+export interface MessageQuery {
+  limit?: number;
+  before?: MessageCursor;
+  after?: MessageCursor;
+  // Load a window centred on this message id
+  around?: number;
+  // Leave out messages this user deleted for themselves
+  viewerId?: number;
+}
+
+// A full-text search over some chats; every term must start a word of a match
+export interface MessageSearch {
+  chatIds: string[];
+  terms: string[];
+  limit: number;
+  // Continue after the oldest result of the previous page
+  before?: MessageCursor;
+  // Leave out messages this user deleted for themselves
+  viewerId?: number;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+}
+
+export function encodeCursor(message: Pick<Message, 'timestamp' | 'id'>): string {
+  return `${message.timestamp!.getTime()}_${message.id}`;
+}
+
+export function decodeCursor(cursor: string): MessageCursor | undefined {
+  const [time, id] = cursor.split('_').map(Number);
+  if (!Number.isInteger(time) || !Number.isInteger(id)) return undefined;
+  return { timestamp: new Date(time), id };
+}
+
+// Whether a read or delivery watermark has reached a message
+export function watermarkCovers(watermark: MessageCursor | undefined, message: Pick<Message, 'timestamp' | 'id'>): boolean {
+  if (!watermark) return false;
+  
+  const watermarkTime = watermark.timestamp.getTime();
+  const messageTime = message.timestamp!.getTime();
+  return watermarkTime > messageTime || (watermarkTime === messageTime && watermark.id >= message.id);
+}
+
+// Limits a message purge to one chat, or to every chat except some
+export interface PurgeScope {
+  chatId?: string;
+  excludeChatIds?: string[];
+}
 
 export interface IStorage {
   // User methods
@@ -19,10 +95,64 @@ export interface IStorage {
   
   // Message methods
   getMessage(id: number): Promise<Message | undefined>;
-  getMessagesByChatId(chatId: string, limit?: number): Promise<Message[]>;
+  // Ids that don't exist are skipped, as are messages `viewerId` deleted for themselves
+  getMessagesByIds(ids: number[], viewerId?: number): Promise<Message[]>;
+  getMessageByClientId(senderId: number, clientMessageId: string): Promise<Message | undefined>;
+  // Resolves undefined when an `around` message is not in the chat
+  getMessagesByChatId(chatId: string, query?: MessageQuery): Promise<MessagePage | undefined>;
   createMessage(message: InsertMessage): Promise<Message>;
   updateMessage(id: number, isRead: boolean): Promise<Message | undefined>;
+  // Delete for everyone: the message stays as a tombstone without its content, mentions or revisions
   deleteMessage(id: number): Promise<boolean>;
+  // Delete for one user: hide the message from their view of the chat only
+  hideMessage(messageId: number, userId: number): Promise<void>;
+  // Replace a message's content and mentions, keeping the previous version as a revision
+  editMessage(id: number, content: string, mentions: MessageMention[]): Promise<Message | undefined>;
+  // Earlier versions of a message, oldest first
+  getMessageRevisions(messageId: number): Promise<MessageRevision[]>;
+  // Messages of a chat after `after` that mention the user or @all, oldest first;
+  // the user's own, deleted and hidden messages are left out
+  getMentions(chatId: string, userId: number, after?: MessageCursor): Promise<Message[]>;
+  // Text messages matching a search, newest first; deleted messages are never found
+  searchMessages(search: MessageSearch): Promise<Message[]>;
+  
+  // Reaction methods
+  // Reactions on any of the messages, oldest first
+  getReactionsByMessageIds(messageIds: number[]): Promise<MessageReaction[]>;
+  // Both report whether anything changed; reacting twice is a no-op
+  addReaction(messageId: number, userId: number, emoji: string): Promise<boolean>;
+  removeReaction(messageId: number, userId: number, emoji: string): Promise<boolean>;
+  
+  // Star methods
+  // A user's stars, most recently starred first
+  getStarredMessages(userId: number): Promise<StarredMessage[]>;
+  // Both report whether anything changed
+  starMessage(messageId: number, userId: number): Promise<boolean>;
+  unstarMessage(messageId: number, userId: number): Promise<boolean>;
+  
+  // Pin methods
+  // Pins of a chat, oldest first
+  getPinnedMessages(chatId: string): Promise<PinnedMessage[]>;
+  // Both report whether anything changed; a message is pinned at most once, and nothing is
+  // pinned once the chat has `limit` pins
+  pinMessage(chatId: string, messageId: number, pinnedBy: number, limit: number): Promise<boolean>;
+  unpinMessage(messageId: number): Promise<boolean>;
+  
+  // Scheduled message methods
+  getScheduledMessage(id: number): Promise<ScheduledMessage | undefined>;
+  // An author's pending messages, soonest first; all their chats unless chatId is given
+  getScheduledMessages(senderId: number, chatId?: string): Promise<ScheduledMessage[]>;
+  createScheduledMessage(message: InsertScheduledMessage): Promise<ScheduledMessage>;
+  deleteScheduledMessage(id: number): Promise<boolean>;
+  // Pending messages whose sendAt has passed, soonest first
+  getDueScheduledMessages(now?: Date): Promise<ScheduledMessage[]>;
+  // Earliest sendAt of any pending message
+  getNextScheduledSendAt(): Promise<Date | undefined>;
+  
+  // Draft methods: a user has at most one draft per chat
+  getDrafts(userId: number): Promise<MessageDraft[]>;
+  saveDraft(userId: number, chatId: string, content: string): Promise<MessageDraft>;
+  deleteDraft(userId: number, chatId: string): Promise<boolean>;
   
   // Chat group methods
   getChatGroup(id: number): Promise<ChatGroup | undefined>;
@@ -34,6 +164,7 @@ export interface IStorage {
   
   // Group member methods
   getGroupMember(groupId: number, userId: number): Promise<GroupMember | undefined>;
+  getGroupMemberById(id: number): Promise<GroupMember | undefined>;
   getGroupMembers(groupId: number): Promise<GroupMember[]>;
   addGroupMember(member: InsertGroupMember): Promise<GroupMember>;
   updateGroupMember(id: number, memberData: Partial<GroupMember>): Promise<GroupMember | undefined>;
@@ -55,8 +186,71 @@ export interface IStorage {
   getConversationsByUserId(userId: number): Promise<Conversation[]>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversationLastMessage(id: number): Promise<Conversation | undefined>;
+  
+  // Chat settings methods
+  getChatSettings(chatId: string): Promise<ChatSettings | undefined>;
+  getRetentionOverrides(): Promise<ChatSettings[]>;
+  upsertChatSettings(chatId: string, settings: Partial<InsertChatSettings>): Promise<ChatSettings>;
+  
+  // Read receipt methods
+  getChatReads(chatId: string): Promise<ChatRead[]>;
+  // Move the user's read watermark up to `message`; it never moves backwards
+  markChatRead(chatId: string, userId: number, message: Message): Promise<ChatRead>;
+  getChatDeliveries(chatId: string): Promise<ChatDelivery[]>;
+  // Same as markChatRead for the delivery watermark
+  markChatDelivered(chatId: string, userId: number, message: Message): Promise<ChatDelivery>;
+  
+  // Retention methods (each returns the rows it removed)
+  purgeMessagesOlderThan(cutoff: Date, scope?: PurgeScope): Promise<Message[]>;
+  purgeExpiredStatuses(now?: Date): Promise<Status[]>;
+  // Remove disappearing messages whose expiresAt has passed, returning what was removed
+  purgeDisappearedMessages(now?: Date): Promise<Message[]>;
+  // Earliest expiresAt of any stored message
+  getNextMessageExpiry(): Promise<Date | undefined>;
+  
+  // Run several steps as one unit of work: if fn throws, everything it did through `tx` is undone
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
 }
 
+export interface MemStorageOptions {
+  // Directory for the snapshot and journal; nothing is persisted when unset
+  dataDir?: string;
+  // How often to fold the journal into a fresh snapshot
+  compactIntervalMs?: number;
+}
+
+type CounterName = 'userId' | 'messageId' | 'groupId' | 'memberId' | 'statusId' | 'viewId' | 'conversationId' | 'settingsId' | 'readId' | 'deliveryId' | 'revisionId' | 'hiddenId' | 'reactionId' | 'starId' | 'pinId' | 'scheduledId' | 'draftId';
+
+// Row values to put back if a MemStorage transaction fails
+interface UndoEntry {
+  name: TableName;
+  id: number;
+  previous: unknown;
+  // What the transaction stored, so a rollback can tell whether the row changed again since
+  written: unknown;
+}
+
+// Each persisted table and the counter that hands out its ids
+const TABLE_COUNTERS: Record<TableName, CounterName> = {
+  users: 'userId',
+  messages: 'messageId',
+  chatGroups: 'groupId',
+  groupMembers: 'memberId',
+  statuses: 'statusId',
+  statusViews: 'viewId',
+  conversations: 'conversationId',
+  chatSettings: 'settingsId',
+  chatReads: 'readId',
+  chatDeliveries: 'deliveryId',
+  messageRevisions: 'revisionId',
+  hiddenMessages: 'hiddenId',
+  messageReactions: 'reactionId',
+  starredMessages: 'starId',
+  pinnedMessages: 'pinId',
+  scheduledMessages: 'scheduledId',
+  messageDrafts: 'draftId',
+};
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private messages: Map<number, Message>;
@@ -65,6 +259,16 @@ export class MemStorage implements IStorage {
   private statuses: Map<number, Status>;
   private statusViews: Map<number, StatusView>;
   private conversations: Map<number, Conversation>;
+  private chatSettings: Map<number, ChatSettings>;
+  private chatReads: Map<number, ChatRead>;
+  private chatDeliveries: Map<number, ChatDelivery>;
+  private messageRevisions: Map<number, MessageRevision>;
+  private hiddenMessages: Map<number, HiddenMessage>;
+  private messageReactions: Map<number, MessageReaction>;
+  private starredMessages: Map<number, StarredMessage>;
+  private pinnedMessages: Map<number, PinnedMessage>;
+  private scheduledMessages: Map<number, ScheduledMessage>;
+  private messageDrafts: Map<number, MessageDraft>;
   
   private userId: number;
   private messageId: number;
@@ -73,8 +277,24 @@ export class MemStorage implements IStorage {
   private statusId: number;
   private viewId: number;
   private conversationId: number;
+  private settingsId: number;
+  private readId: number;
+  private deliveryId: number;
+  private revisionId: number;
+  private hiddenId: number;
+  private reactionId: number;
+  private starId: number;
+  private pinId: number;
+  private scheduledId: number;
+  private draftId: number;
+  
+  private journal: SnapshotJournal | null = null;
+  private indexes = new MemIndexes();
+  // Undo log of the transaction the current async call chain is running in
+  private transactions = new AsyncLocalStorage<UndoEntry[]>();
+  private openTransactions = 0;
   
-  constructor() {
+  constructor(options: MemStorageOptions = {}) {
     this.users = new Map();
     this.messages = new Map();
     this.chatGroups = new Map();
@@ -82,6 +302,16 @@ export class MemStorage implements IStorage {
     this.statuses = new Map();
     this.statusViews = new Map();
     this.conversations = new Map();
+    this.chatSettings = new Map();
+    this.chatReads = new Map();
+    this.chatDeliveries = new Map();
+    this.messageRevisions = new Map();
+    this.hiddenMessages = new Map();
+    this.messageReactions = new Map();
+    this.starredMessages = new Map();
+    this.pinnedMessages = new Map();
+    this.scheduledMessages = new Map();
+    this.messageDrafts = new Map();
     
     this.userId = 1;
     this.messageId = 1;
@@ -90,6 +320,243 @@ export class MemStorage implements IStorage {
     this.statusId = 1;
     this.viewId = 1;
     this.conversationId = 1;
+    this.settingsId = 1;
+    this.readId = 1;
+    this.deliveryId = 1;
+    this.revisionId = 1;
+    this.hiddenId = 1;
+    this.reactionId = 1;
+    this.starId = 1;
+    this.pinId = 1;
+    this.scheduledId = 1;
+    this.draftId = 1;
+    
+    if (options.dataDir) {
+      this.journal = new SnapshotJournal(options.dataDir);
+      this.restore();
+      
+      // Fold the journal into the snapshot periodically
+      setInterval(() => this.compact(), options.compactIntervalMs ?? 3600000).unref();
+    }
+  }
+  
+  private table(name: TableName): Map<number, unknown> {
+    return this[name] as Map<number, unknown>;
+  }
+  
+  // Rebuild the maps and counters from the snapshot plus journal
+  private restore() {
+    if (!this.journal) return;
+    
+    const { snapshot, records } = this.journal.load();
+    
+    if (snapshot) {
+      for (const name of Object.keys(TABLE_COUNTERS) as TableName[]) {
+        const rows = this.table(name);
+        for (const [id, value] of snapshot.tables[name] || []) {
+          rows.set(id, value);
+        }
+        this[TABLE_COUNTERS[name]] = snapshot.counters[TABLE_COUNTERS[name]] ?? this[TABLE_COUNTERS[name]];
+      }
+    }
+    
+    for (const record of records) {
+      const name = record.table as TableName;
+      if (!(name in TABLE_COUNTERS)) continue;
+      
+      if (record.op === 'set') {
+        this.table(name).set(record.id, record.value);
+        // Every id ever handed out was journaled on creation
+        const counter = TABLE_COUNTERS[name];
+        this[counter] = Math.max(this[counter], record.id + 1);
+      } else {
+        this.table(name).delete(record.id);
+      }
+    }
+    
+    const rewritten = this.canonicalizeDirectChats();
+    
+    for (const name of Object.keys(TABLE_COUNTERS) as TableName[]) {
+      this.table(name).forEach(row => this.indexes.add(...[name, row] as TableRow));
+    }
+    
+    // Start from a compact journal
+    if (records.length > 0 || rewritten) {
+      this.compact();
+    }
+  }
+  
+  // Older data names some DMs with the higher user id first. Move those rows to the canonical
+  // chat id and merge rows that now collide, as migrations 0017 and 0019 do in Postgres.
+  // Runs before the indexes are built; reports whether anything changed.
+  private canonicalizeDirectChats() {
+    const time = (date: Date | null | undefined) => date?.getTime() ?? 0;
+    
+    let changed = this.canonicalizeChatIds(this.messages);
+    changed = this.canonicalizeChatIds(this.pinnedMessages) || changed;
+    changed = this.canonicalizeChatIds(this.scheduledMessages) || changed;
+    changed = this.canonicalizeChatIds(this.chatSettings, settings => settings.chatId,
+      (a, b) => time(a.updatedAt) - time(b.updatedAt)) || changed;
+    changed = this.canonicalizeChatIds(this.chatReads, read => `${read.chatId}:${read.userId}`,
+      (a, b) => time(a.lastReadTimestamp) - time(b.lastReadTimestamp) || a.lastReadMessageId - b.lastReadMessageId) || changed;
+    changed = this.canonicalizeChatIds(this.chatDeliveries, delivery => `${delivery.chatId}:${delivery.userId}`,
+      (a, b) => time(a.lastDeliveredTimestamp) - time(b.lastDeliveredTimestamp) || a.lastDeliveredMessageId - b.lastDeliveredMessageId) || changed;
+    changed = this.canonicalizeChatIds(this.messageDrafts, draft => `${draft.userId}:${draft.chatId}`,
+      (a, b) => time(a.updatedAt) - time(b.updatedAt)) || changed;
+    
+    // One conversation per pair of users, lower id first; the oldest row takes the latest activity
+    const byPair = new Map<string, Conversation>();
+    for (const conversation of Array.from(this.conversations.values()).sort((a, b) => a.id - b.id)) {
+      const key = pairKey(conversation.user1Id, conversation.user2Id);
+      const kept = byPair.get(key);
+      if (kept) {
+        if (time(conversation.lastMessageAt) > time(kept.lastMessageAt)) {
+          kept.lastMessageAt = conversation.lastMessageAt;
+        }
+        this.conversations.delete(conversation.id);
+        changed = true;
+      } else if (conversation.user1Id > conversation.user2Id) {
+        const swapped = { ...conversation, user1Id: conversation.user2Id, user2Id: conversation.user1Id };
+        this.conversations.set(conversation.id, swapped);
+        byPair.set(key, swapped);
+        changed = true;
+      } else {
+        byPair.set(key, conversation);
+      }
+    }
+    
+    return changed;
+  }
+  
+  // Rewrite one table's chat ids; where `uniqueKey` then collides, the row `compare` ranks
+  // higher stays (the older row on a tie) and the other is dropped
+  private canonicalizeChatIds<T extends { id: number; chatId: string }>(
+    rows: Map<number, T>,
+    uniqueKey?: (row: T) => string,
+    compare?: (a: T, b: T) => number
+  ) {
+    let changed = false;
+    const kept = new Map<string, T>();
+    
+    for (const original of Array.from(rows.values()).sort((a, b) => a.id - b.id)) {
+      const chatId = canonicalChatId(original.chatId);
+      let row = original;
+      if (chatId !== original.chatId) {
+        row = { ...original, chatId };
+        rows.set(row.id, row);
+        changed = true;
+      }
+      if (!uniqueKey) continue;
+      
+      const key = uniqueKey(row);
+      const existing = kept.get(key);
+      if (!existing) {
+        kept.set(key, row);
+        continue;
+      }
+      
+      const loser = compare && compare(row, existing) > 0 ? existing : row;
+      rows.delete(loser.id);
+      kept.set(key, loser === existing ? row : existing);
+      changed = true;
+    }
+    
+    return changed;
+  }
+  
+  // Store (or with undefined, remove) one row, keeping indexes and journal in step
+  private write(name: TableName, id: number, row: unknown) {
+    const previous = this.apply(name, id, row);
+    
+    // Inside a transaction the journal is written once it commits
+    const undo = this.transactions.getStore();
+    if (undo) {
+      undo.push({ name, id, previous, written: row });
+    } else {
+      this.persist(name, id);
+    }
+  }
+  
+  // Change one row in memory and its indexes, returning the value it replaced
+  private apply(name: TableName, id: number, row: unknown) {
+    const rows = this.table(name);
+    const previous = rows.get(id);
+    if (previous !== undefined) {
+      this.indexes.remove(...[name, previous] as TableRow);
+    }
+    
+    if (row === undefined) {
+      rows.delete(id);
+    } else {
+      rows.set(id, row);
+      this.indexes.add(...[name, row] as TableRow);
+    }
+    
+    return previous;
+  }
+  
+  // Journal the current state of one row after it changed
+  private persist(name: TableName, id: number) {
+    if (!this.journal) return;
+    
+    const value = this.table(name).get(id);
+    this.journal.append(
+      value === undefined
+        ? { table: name, op: 'delete', id }
+        : { table: name, op: 'set', id, value }
+    );
+    
+    if (this.journal.needsCompaction()) {
+      this.compact();
+    }
+  }
+  
+  private compact() {
+    // A snapshot taken mid-transaction could capture rows that are later rolled back
+    if (!this.journal || this.openTransactions > 0) return;
+    
+    const snapshot: Snapshot = { tables: {}, counters: {} };
+    for (const name of Object.keys(TABLE_COUNTERS) as TableName[]) {
+      snapshot.tables[name] = Array.from(this.table(name).entries());
+      snapshot.counters[TABLE_COUNTERS[name]] = this[TABLE_COUNTERS[name]];
+    }
+    
+    try {
+      this.journal.compact(snapshot);
+    } catch (error) {
+      // The journal still holds everything, so a failed compaction loses nothing
+      console.error('Snapshot compaction error:', error);
+    }
+  }
+  
+  // Ids handed out inside a failed transaction are not reused, as with SQL sequences.
+  // Writes are visible to other callers before the transaction commits.
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Nested calls join the outer unit of work
+    if (this.transactions.getStore()) return fn(this);
+    
+    const undo: UndoEntry[] = [];
+    this.openTransactions++;
+    
+    let result: T;
+    try {
+      result = await this.transactions.run(undo, () => fn(this));
+    } catch (error) {
+      // Writes from outside the transaction can land between its awaits and are journaled
+      // straight away; a row changed since this transaction wrote it keeps that newer value
+      for (const entry of undo.reverse()) {
+        if (this.table(entry.name).get(entry.id) !== entry.written) continue;
+        this.apply(entry.name, entry.id, entry.previous);
+      }
+      throw error;
+    } finally {
+      this.openTransactions--;
+    }
+    
+    // Journal the committed state of every row the transaction touched
+    const touched = new Map(undo.map(entry => [`${entry.name}:${entry.id}`, entry]));
+    touched.forEach(entry => this.persist(entry.name, entry.id));
+    return result;
   }
   
   // User methods
@@ -98,18 +565,20 @@ export class MemStorage implements IStorage {
   }
   
   async getUserByEmail(email: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.email === email);
+    const id = this.indexes.usersByEmail.get(email);
+    return id === undefined ? undefined : this.users.get(id);
   }
   
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.username === username);
+    const id = this.indexes.usersByUsername.get(username);
+    return id === undefined ? undefined : this.users.get(id);
   }
   
   async createUser(userData: InsertUser): Promise<User> {
     const id = this.userId++;
     const createdAt = new Date();
-    const user: User = { ...userData, id, createdAt };
-    this.users.set(id, user);
+    const user: User = { ...userData, id, createdAt, lastSeenAt: null };
+    this.write('users', id, user);
     return user;
   }
   
@@ -118,12 +587,15 @@ export class MemStorage implements IStorage {
     if (!user) return undefined;
     
     const updatedUser = { ...user, ...userData };
-    this.users.set(id, updatedUser);
+    this.write('users', id, updatedUser);
     return updatedUser;
   }
   
   async deleteUser(id: number): Promise<boolean> {
-    return this.users.delete(id);
+    if (!this.users.has(id)) return false;
+    
+    this.write('users', id, undefined);
+    return true;
   }
   
   // Message methods
@@ -131,24 +603,76 @@ export class MemStorage implements IStorage {
     return this.messages.get(id);
   }
   
-  async getMessagesByChatId(chatId: string, limit = 50): Promise<Message[]> {
-    return Array.from(this.messages.values())
-      .filter(message => message.chatId === chatId && !message.isDeleted)
-      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
-      .slice(-limit);
+  async getMessagesByIds(ids: number[], viewerId?: number): Promise<Message[]> {
+    const hidden = viewerId !== undefined ? this.indexes.hiddenByUser.get(viewerId) : undefined;
+    return ids
+      .filter(id => !hidden?.has(id))
+      .map(id => this.messages.get(id))
+      .filter((message): message is Message => message !== undefined);
+  }
+  
+  async getMessageByClientId(senderId: number, clientMessageId: string): Promise<Message | undefined> {
+    const id = this.indexes.messagesByClientId.get(clientKey(senderId, clientMessageId));
+    return id === undefined ? undefined : this.messages.get(id);
+  }
+  
+  async getMessagesByChatId(chatId: string, query: MessageQuery = {}): Promise<MessagePage | undefined> {
+    const limit = query.limit ?? 50;
+    const timeline = this.indexes.chatTimelines.get(chatId) || [];
+    const hidden = query.viewerId !== undefined ? this.indexes.hiddenByUser.get(query.viewerId) : undefined;
+    
+    // Timeline positions of the page, oldest first; `pivot` is where an empty page sits
+    let positions: number[];
+    let pivot: number;
+    
+    if (query.around !== undefined) {
+      const target = this.messages.get(query.around);
+      if (!target || target.chatId !== chatId || hidden?.has(target.id)) return undefined;
+      
+      pivot = lowerBound(timeline, target);
+      const older = walkTimeline(timeline, pivot - 1, -1, Math.floor((limit - 1) / 2), hidden).reverse();
+      const newer = walkTimeline(timeline, pivot + 1, 1, limit - 1 - older.length, hidden);
+      positions = [...older, pivot, ...newer];
+    } else if (query.after) {
+      pivot = lowerBound(timeline, query.after, true);
+      positions = walkTimeline(timeline, pivot, 1, limit, hidden);
+    } else {
+      pivot = query.before ? lowerBound(timeline, query.before) : timeline.length;
+      positions = walkTimeline(timeline, pivot - 1, -1, limit, hidden).reverse();
+    }
+    
+    const first = positions.length > 0 ? positions[0] : pivot;
+    const last = positions.length > 0 ? positions[positions.length - 1] : pivot - 1;
+    
+    return {
+      messages: positions.map(position => this.messages.get(timeline[position].id)!),
+      hasMoreBefore: walkTimeline(timeline, first - 1, -1, 1, hidden).length > 0,
+      hasMoreAfter: walkTimeline(timeline, last + 1, 1, 1, hidden).length > 0
+    };
   }
   
   async createMessage(messageData: InsertMessage): Promise<Message> {
+    // Same rule as the unique index in Postgres; checked synchronously so concurrent retries can't both pass
+    if (messageData.clientMessageId && this.indexes.messagesByClientId.has(clientKey(messageData.senderId, messageData.clientMessageId))) {
+      throw new Error(`Duplicate clientMessageId ${messageData.clientMessageId}`);
+    }
+    
     const id = this.messageId++;
     const timestamp = new Date();
     const message: Message = { 
       ...messageData, 
       id, 
       timestamp, 
+      clientMessageId: messageData.clientMessageId ?? null,
       isRead: false, 
-      isDeleted: false 
+      isDeleted: false,
+      editedAt: null,
+      replyToId: messageData.replyToId ?? null,
+      forwardCount: messageData.forwardCount ?? 0,
+      mentions: messageData.mentions ?? [],
+      expiresAt: messageData.expiresAt ?? null
     };
-    this.messages.set(id, message);
+    this.write('messages', id, message);
     return message;
   }
   
@@ -157,7 +681,7 @@ export class MemStorage implements IStorage {
     if (!message) return undefined;
     
     const updatedMessage = { ...message, isRead };
-    this.messages.set(id, updatedMessage);
+    this.write('messages', id, updatedMessage);
     return updatedMessage;
   }
   
@@ -165,11 +689,247 @@ export class MemStorage implements IStorage {
     const message = this.messages.get(id);
     if (!message) return false;
     
-    const updatedMessage = { ...message, isDeleted: true };
-    this.messages.set(id, updatedMessage);
+    const updatedMessage = { ...message, content: '', mentions: [], isDeleted: true };
+    this.write('messages', id, updatedMessage);
+    
+    // Earlier versions would still show what was deleted; reactions, stars and pins go too
+    for (const revisionId of Array.from(this.indexes.revisionsByMessage.get(id) || [])) {
+      this.write('messageRevisions', revisionId, undefined);
+    }
+    this.removeMarksOf(id);
     return true;
   }
   
+  async hideMessage(messageId: number, userId: number): Promise<void> {
+    if (this.indexes.hiddenByMessage.get(messageId)?.has(userId)) return;
+    
+    const id = this.hiddenId++;
+    const hidden: HiddenMessage = { id, userId, messageId, hiddenAt: new Date() };
+    this.write('hiddenMessages', id, hidden);
+  }
+  
+  async editMessage(id: number, content: string, mentions: MessageMention[]): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+    
+    const editedAt = new Date();
+    const revisionId = this.revisionId++;
+    const revision: MessageRevision = {
+      id: revisionId,
+      messageId: id,
+      content: message.content,
+      writtenAt: message.editedAt ?? message.timestamp!,
+      replacedAt: editedAt
+    };
+    this.write('messageRevisions', revisionId, revision);
+    
+    const updatedMessage = { ...message, content, mentions, editedAt };
+    this.write('messages', id, updatedMessage);
+    return updatedMessage;
+  }
+  
+  async getMessageRevisions(messageId: number): Promise<MessageRevision[]> {
+    const revisionIds = this.indexes.revisionsByMessage.get(messageId) || new Set<number>();
+    return Array.from(revisionIds)
+      .sort((a, b) => a - b)
+      .map(id => this.messageRevisions.get(id)!);
+  }
+  
+  async getMentions(chatId: string, userId: number, after?: MessageCursor): Promise<Message[]> {
+    const timeline = this.indexes.chatTimelines.get(chatId) || [];
+    const hidden = this.indexes.hiddenByUser.get(userId);
+    const from = after ? lowerBound(timeline, after, true) : 0;
+    
+    return timeline.slice(from)
+      .map(entry => this.messages.get(entry.id)!)
+      .filter(message => !message.isDeleted && message.senderId !== userId && !hidden?.has(message.id))
+      .filter(message => message.mentions.some(mention => mention.userId === userId || mention.userId === null));
+  }
+  
+  async searchMessages(search: MessageSearch): Promise<Message[]> {
+    if (search.terms.length === 0 || search.chatIds.length === 0) return [];
+    
+    // A term matches every indexed word it starts
+    const matching = search.terms.map(term => {
+      const ids = new Set<number>();
+      this.indexes.wordsStartingWith(term).forEach(word => {
+        this.indexes.messagesByWord.get(word)!.forEach(id => ids.add(id));
+      });
+      return ids;
+    });
+    
+    const chatIds = new Set(search.chatIds);
+    const hidden = search.viewerId !== undefined ? this.indexes.hiddenByUser.get(search.viewerId) : undefined;
+    const [smallest, ...rest] = matching.sort((a, b) => a.size - b.size);
+    
+    return Array.from(smallest)
+      .filter(id => rest.every(ids => ids.has(id)) && !hidden?.has(id))
+      .map(id => this.messages.get(id)!)
+      .filter(message => chatIds.has(message.chatId))
+      .filter(message => !search.before || compareEntries(message, search.before) < 0)
+      .sort((a, b) => compareEntries(b, a))
+      .slice(0, search.limit);
+  }
+  
+  // Reaction methods
+  async getReactionsByMessageIds(messageIds: number[]): Promise<MessageReaction[]> {
+    return messageIds
+      .flatMap(messageId => Array.from(this.indexes.reactionsByMessage.get(messageId)?.values() || []))
+      .sort((a, b) => a - b)
+      .map(id => this.messageReactions.get(id)!);
+  }
+  
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<boolean> {
+    if (this.indexes.reactionsByMessage.get(messageId)?.has(reactionKey(userId, emoji))) return false;
+    
+    const id = this.reactionId++;
+    const reaction: MessageReaction = { id, messageId, userId, emoji, createdAt: new Date() };
+    this.write('messageReactions', id, reaction);
+    return true;
+  }
+  
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<boolean> {
+    const id = this.indexes.reactionsByMessage.get(messageId)?.get(reactionKey(userId, emoji));
+    if (id === undefined) return false;
+    
+    this.write('messageReactions', id, undefined);
+    return true;
+  }
+  
+  // Star methods
+  async getStarredMessages(userId: number): Promise<StarredMessage[]> {
+    const starIds = this.indexes.starsByUser.get(userId) || new Set<number>();
+    return Array.from(starIds)
+      .sort((a, b) => b - a)
+      .map(id => this.starredMessages.get(id)!);
+  }
+  
+  async starMessage(messageId: number, userId: number): Promise<boolean> {
+    if (this.indexes.starsByMessage.get(messageId)?.has(userId)) return false;
+    
+    const id = this.starId++;
+    const star: StarredMessage = { id, userId, messageId, starredAt: new Date() };
+    this.write('starredMessages', id, star);
+    return true;
+  }
+  
+  async unstarMessage(messageId: number, userId: number): Promise<boolean> {
+    const id = this.indexes.starsByMessage.get(messageId)?.get(userId);
+    if (id === undefined) return false;
+    
+    this.write('starredMessages', id, undefined);
+    return true;
+  }
+  
+  // Pin methods
+  async getPinnedMessages(chatId: string): Promise<PinnedMessage[]> {
+    const pinIds = this.indexes.pinsByChat.get(chatId) || new Set<number>();
+    return Array.from(pinIds)
+      .sort((a, b) => a - b)
+      .map(id => this.pinnedMessages.get(id)!);
+  }
+  
+  async pinMessage(chatId: string, messageId: number, pinnedBy: number, limit: number): Promise<boolean> {
+    if (this.indexes.pinsByMessage.has(messageId)) return false;
+    if ((this.indexes.pinsByChat.get(chatId)?.size ?? 0) >= limit) return false;
+    
+    const id = this.pinId++;
+    const pin: PinnedMessage = { id, chatId, messageId, pinnedBy, pinnedAt: new Date() };
+    this.write('pinnedMessages', id, pin);
+    return true;
+  }
+  
+  async unpinMessage(messageId: number): Promise<boolean> {
+    const id = this.indexes.pinsByMessage.get(messageId);
+    if (id === undefined) return false;
+    
+    this.write('pinnedMessages', id, undefined);
+    return true;
+  }
+  
+  // Scheduled message methods
+  async getScheduledMessage(id: number): Promise<ScheduledMessage | undefined> {
+    return this.scheduledMessages.get(id);
+  }
+  
+  async getScheduledMessages(senderId: number, chatId?: string): Promise<ScheduledMessage[]> {
+    const scheduledIds = this.indexes.scheduledBySender.get(senderId) || new Set<number>();
+    return Array.from(scheduledIds)
+      .map(id => this.scheduledMessages.get(id)!)
+      .filter(scheduled => chatId === undefined || scheduled.chatId === chatId)
+      .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime() || a.id - b.id);
+  }
+  
+  async createScheduledMessage(messageData: InsertScheduledMessage): Promise<ScheduledMessage> {
+    const id = this.scheduledId++;
+    const scheduled: ScheduledMessage = {
+      contentType: 'text',
+      replyToId: null,
+      ...messageData,
+      id,
+      createdAt: new Date()
+    };
+    this.write('scheduledMessages', id, scheduled);
+    return scheduled;
+  }
+  
+  async deleteScheduledMessage(id: number): Promise<boolean> {
+    if (!this.scheduledMessages.has(id)) return false;
+    
+    this.write('scheduledMessages', id, undefined);
+    return true;
+  }
+  
+  async getDueScheduledMessages(now = new Date()): Promise<ScheduledMessage[]> {
+    return Array.from(this.scheduledMessages.values())
+      .filter(scheduled => scheduled.sendAt <= now)
+      .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime() || a.id - b.id);
+  }
+  
+  async getNextScheduledSendAt(): Promise<Date | undefined> {
+    let next: Date | undefined;
+    this.scheduledMessages.forEach(scheduled => {
+      if (!next || scheduled.sendAt < next) next = scheduled.sendAt;
+    });
+    return next;
+  }
+  
+  // Draft methods
+  async getDrafts(userId: number): Promise<MessageDraft[]> {
+    const draftIds = this.indexes.draftsByUser.get(userId) || new Map<string, number>();
+    return Array.from(draftIds.values()).map(id => this.messageDrafts.get(id)!);
+  }
+  
+  async saveDraft(userId: number, chatId: string, content: string): Promise<MessageDraft> {
+    const existingId = this.indexes.draftsByUser.get(userId)?.get(chatId);
+    const id = existingId ?? this.draftId++;
+    const draft: MessageDraft = { id, userId, chatId, content, updatedAt: new Date() };
+    this.write('messageDrafts', id, draft);
+    return draft;
+  }
+  
+  async deleteDraft(userId: number, chatId: string): Promise<boolean> {
+    const id = this.indexes.draftsByUser.get(userId)?.get(chatId);
+    if (id === undefined) return false;
+    
+    this.write('messageDrafts', id, undefined);
+    return true;
+  }
+  
+  // Reactions, stars and pins of a message that is deleted or purged
+  private removeMarksOf(messageId: number) {
+    for (const reactionId of Array.from(this.indexes.reactionsByMessage.get(messageId)?.values() || [])) {
+      this.write('messageReactions', reactionId, undefined);
+    }
+    for (const starId of Array.from(this.indexes.starsByMessage.get(messageId)?.values() || [])) {
+      this.write('starredMessages', starId, undefined);
+    }
+    const pinId = this.indexes.pinsByMessage.get(messageId);
+    if (pinId !== undefined) {
+      this.write('pinnedMessages', pinId, undefined);
+    }
+  }
+  
   // Chat group methods
   async getChatGroup(id: number): Promise<ChatGroup | undefined> {
     return this.chatGroups.get(id);
@@ -180,19 +940,18 @@ export class MemStorage implements IStorage {
   }
   
   async getChatGroupsByUserId(userId: number): Promise<ChatGroup[]> {
-    const memberGroups = Array.from(this.groupMembers.values())
-      .filter(member => member.userId === userId)
-      .map(member => member.groupId);
+    const groupIds = this.indexes.groupsByUser.get(userId) || new Set<number>();
     
-    return Array.from(this.chatGroups.values())
-      .filter(group => memberGroups.includes(group.id));
+    return Array.from(groupIds)
+      .map(groupId => this.chatGroups.get(groupId))
+      .filter((group): group is ChatGroup => !!group);
   }
   
   async createChatGroup(groupData: InsertChatGroup): Promise<ChatGroup> {
     const id = this.groupId++;
     const createdAt = new Date();
     const group: ChatGroup = { ...groupData, id, createdAt };
-    this.chatGroups.set(id, group);
+    this.write('chatGroups', id, group);
     return group;
   }
   
@@ -201,30 +960,37 @@ export class MemStorage implements IStorage {
     if (!group) return undefined;
     
     const updatedGroup = { ...group, ...groupData };
-    this.chatGroups.set(id, updatedGroup);
+    this.write('chatGroups', id, updatedGroup);
     return updatedGroup;
   }
   
   async deleteChatGroup(id: number): Promise<boolean> {
-    return this.chatGroups.delete(id);
+    if (!this.chatGroups.has(id)) return false;
+    
+    this.write('chatGroups', id, undefined);
+    return true;
   }
   
   // Group member methods
   async getGroupMember(groupId: number, userId: number): Promise<GroupMember | undefined> {
-    return Array.from(this.groupMembers.values())
-      .find(member => member.groupId === groupId && member.userId === userId);
+    const id = this.indexes.membersByGroup.get(groupId)?.get(userId);
+    return id === undefined ? undefined : this.groupMembers.get(id);
+  }
+  
+  async getGroupMemberById(id: number): Promise<GroupMember | undefined> {
+    return this.groupMembers.get(id);
   }
   
   async getGroupMembers(groupId: number): Promise<GroupMember[]> {
-    return Array.from(this.groupMembers.values())
-      .filter(member => member.groupId === groupId);
+    const memberIds = this.indexes.membersByGroup.get(groupId) || new Map<number, number>();
+    return Array.from(memberIds.values()).map(id => this.groupMembers.get(id)!);
   }
   
   async addGroupMember(memberData: InsertGroupMember): Promise<GroupMember> {
     const id = this.memberId++;
     const joinedAt = new Date();
     const member: GroupMember = { ...memberData, id, joinedAt };
-    this.groupMembers.set(id, member);
+    this.write('groupMembers', id, member);
     return member;
   }
   
@@ -233,12 +999,15 @@ export class MemStorage implements IStorage {
     if (!member) return undefined;
     
     const updatedMember = { ...member, ...memberData };
-    this.groupMembers.set(id, updatedMember);
+    this.write('groupMembers', id, updatedMember);
     return updatedMember;
   }
   
   async removeGroupMember(id: number): Promise<boolean> {
-    return this.groupMembers.delete(id);
+    if (!this.groupMembers.has(id)) return false;
+    
+    this.write('groupMembers', id, undefined);
+    return true;
   }
   
   // Status methods
@@ -263,17 +1032,20 @@ export class MemStorage implements IStorage {
   async createStatus(statusData: InsertStatus): Promise<Status> {
     const id = this.statusId++;
     const createdAt = new Date();
-    // Status expires in 3 days
+    // Status expires after the configured number of days
     const expiresAt = new Date(createdAt);
-    expiresAt.setDate(expiresAt.getDate() + 3);
+    expiresAt.setDate(expiresAt.getDate() + retentionConfig.statusDays);
     
     const status: Status = { ...statusData, id, createdAt, expiresAt };
-    this.statuses.set(id, status);
+    this.write('statuses', id, status);
     return status;
   }
   
   async deleteStatus(id: number): Promise<boolean> {
-    return this.statuses.delete(id);
+    if (!this.statuses.has(id)) return false;
+    
+    this.write('statuses', id, undefined);
+    return true;
   }
   
   // Status view methods
@@ -286,22 +1058,20 @@ export class MemStorage implements IStorage {
     const id = this.viewId++;
     const viewedAt = new Date();
     const view: StatusView = { ...viewData, id, viewedAt };
-    this.statusViews.set(id, view);
+    this.write('statusViews', id, view);
     return view;
   }
   
   // Conversation methods
   async getConversation(user1Id: number, user2Id: number): Promise<Conversation | undefined> {
-    return Array.from(this.conversations.values())
-      .find(conv => 
-        (conv.user1Id === user1Id && conv.user2Id === user2Id) || 
-        (conv.user1Id === user2Id && conv.user2Id === user1Id)
-      );
+    const id = this.indexes.conversationsByPair.get(pairKey(user1Id, user2Id));
+    return id === undefined ? undefined : this.conversations.get(id);
   }
   
   async getConversationsByUserId(userId: number): Promise<Conversation[]> {
-    return Array.from(this.conversations.values())
-      .filter(conv => conv.user1Id === userId || conv.user2Id === userId)
+    const conversationIds = this.indexes.conversationsByUser.get(userId) || new Set<number>();
+    return Array.from(conversationIds)
+      .map(id => this.conversations.get(id)!)
       .sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime());
   }
   
@@ -309,7 +1079,7 @@ export class MemStorage implements IStorage {
     const id = this.conversationId++;
     const lastMessageAt = new Date();
     const conversation: Conversation = { ...conversationData, id, lastMessageAt };
-    this.conversations.set(id, conversation);
+    this.write('conversations', id, conversation);
     return conversation;
   }
   
@@ -318,10 +1088,160 @@ export class MemStorage implements IStorage {
     if (!conversation) return undefined;
     
     const updatedConversation = { ...conversation, lastMessageAt: new Date() };
-    this.conversations.set(id, updatedConversation);
+    this.write('conversations', id, updatedConversation);
     return updatedConversation;
   }
+  
+  // Chat settings methods
+  async getChatSettings(chatId: string): Promise<ChatSettings | undefined> {
+    const id = this.indexes.settingsByChat.get(chatId);
+    return id === undefined ? undefined : this.chatSettings.get(id);
+  }
+  
+  async getRetentionOverrides(): Promise<ChatSettings[]> {
+    return Array.from(this.chatSettings.values())
+      .filter(settings => settings.messageRetentionDays !== null);
+  }
+  
+  async upsertChatSettings(chatId: string, settingsData: Partial<InsertChatSettings>): Promise<ChatSettings> {
+    const existing = await this.getChatSettings(chatId);
+    const id = existing ? existing.id : this.settingsId++;
+    const settings: ChatSettings = {
+      messageRetentionDays: null,
+      disappearingSeconds: null,
+      ...existing,
+      ...settingsData,
+      id,
+      chatId,
+      updatedAt: new Date()
+    };
+    this.write('chatSettings', id, settings);
+    return settings;
+  }
+  
+  // Read receipt methods
+  async getChatReads(chatId: string): Promise<ChatRead[]> {
+    const readIds = this.indexes.readsByChat.get(chatId) || new Map<number, number>();
+    return Array.from(readIds.values()).map(id => this.chatReads.get(id)!);
+  }
+  
+  async markChatRead(chatId: string, userId: number, message: Message): Promise<ChatRead> {
+    const existingId = this.indexes.readsByChat.get(chatId)?.get(userId);
+    const existing = existingId === undefined ? undefined : this.chatReads.get(existingId);
+    
+    const position = { timestamp: message.timestamp, id: message.id };
+    const current = existing && { timestamp: existing.lastReadTimestamp, id: existing.lastReadMessageId };
+    if (current && compareEntries(current, position) >= 0) return existing;
+    
+    const id = existing ? existing.id : this.readId++;
+    const read: ChatRead = {
+      id,
+      chatId,
+      userId,
+      lastReadMessageId: message.id,
+      lastReadTimestamp: message.timestamp!,
+      readAt: new Date()
+    };
+    this.write('chatReads', id, read);
+    return read;
+  }
+  
+  async getChatDeliveries(chatId: string): Promise<ChatDelivery[]> {
+    const deliveryIds = this.indexes.deliveriesByChat.get(chatId) || new Map<number, number>();
+    return Array.from(deliveryIds.values()).map(id => this.chatDeliveries.get(id)!);
+  }
+  
+  async markChatDelivered(chatId: string, userId: number, message: Message): Promise<ChatDelivery> {
+    const existingId = this.indexes.deliveriesByChat.get(chatId)?.get(userId);
+    const existing = existingId === undefined ? undefined : this.chatDeliveries.get(existingId);
+    
+    const position = { timestamp: message.timestamp, id: message.id };
+    const current = existing && { timestamp: existing.lastDeliveredTimestamp, id: existing.lastDeliveredMessageId };
+    if (current && compareEntries(current, position) >= 0) return existing;
+    
+    const id = existing ? existing.id : this.deliveryId++;
+    const delivery: ChatDelivery = {
+      id,
+      chatId,
+      userId,
+      lastDeliveredMessageId: message.id,
+      lastDeliveredTimestamp: message.timestamp!,
+      deliveredAt: new Date()
+    };
+    this.write('chatDeliveries', id, delivery);
+    return delivery;
+  }
+  
+  // Retention methods
+  async purgeMessagesOlderThan(cutoff: Date, scope: PurgeScope = {}): Promise<Message[]> {
+    const purged: Message[] = [];
+    
+    for (const [id, message] of Array.from(this.messages.entries())) {
+      if (!message.timestamp || message.timestamp >= cutoff) continue;
+      if (scope.chatId !== undefined && message.chatId !== scope.chatId) continue;
+      if (scope.excludeChatIds?.includes(message.chatId)) continue;
+      
+      this.purgeMessage(id);
+      purged.push(message);
+    }
+    
+    return purged;
+  }
+  
+  async purgeDisappearedMessages(now = new Date()): Promise<Message[]> {
+    const expired = Array.from(this.indexes.expiringMessages)
+      .map(id => this.messages.get(id)!)
+      .filter(message => message.expiresAt! <= now);
+    
+    expired.forEach(message => this.purgeMessage(message.id));
+    return expired;
+  }
+  
+  async getNextMessageExpiry(): Promise<Date | undefined> {
+    let next: Date | undefined;
+    this.indexes.expiringMessages.forEach(id => {
+      const expiresAt = this.messages.get(id)!.expiresAt!;
+      if (!next || expiresAt < next) next = expiresAt;
+    });
+    return next;
+  }
+  
+  // Remove a message for good, with its earlier versions, who hid it, its reactions, stars and pins
+  private purgeMessage(id: number) {
+    this.write('messages', id, undefined);
+    
+    for (const revisionId of Array.from(this.indexes.revisionsByMessage.get(id) || [])) {
+      this.write('messageRevisions', revisionId, undefined);
+    }
+    for (const hiddenId of Array.from(this.indexes.hiddenByMessage.get(id)?.values() || [])) {
+      this.write('hiddenMessages', hiddenId, undefined);
+    }
+    this.removeMarksOf(id);
+  }
+  
+  async purgeExpiredStatuses(now = new Date()): Promise<Status[]> {
+    const purged: Status[] = [];
+    
+    for (const [id, status] of Array.from(this.statuses.entries())) {
+      if (!status.expiresAt || status.expiresAt >= now) continue;
+      
+      this.write('statuses', id, undefined);
+      purged.push(status);
+      
+      // Views of a removed status go with it
+      for (const [viewId, view] of Array.from(this.statusViews.entries())) {
+        if (view.statusId === id) {
+          this.write('statusViews', viewId, undefined);
+        }
+      }
+    }
+    
+    return purged;
+  }
 }
 
-// Initialize storage
-export const storage = new MemStorage();
+// Initialize storage: Postgres when DATABASE_URL is set, otherwise in-memory
+// (persisted to DATA_DIR when that is set)
+export const storage: IStorage = db
+  ? new DrizzleStorage(db)
+  : new MemStorage({ dataDir: process.env.DATA_DIR });
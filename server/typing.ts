@@ -0,0 +1,61 @@
+// An indicator expires on its own unless typing_start is repeated within this window,
+// so a closed tab or dropped socket never leaves it stuck
+export const TYPING_EXPIRY_MS = 6000;
+
+// typing_start frames closer together than this are not fanned out again
+const TYPING_THROTTLE_MS = 2000;
+
+// Fan-out callback: tell the rest of the chat that a user started or stopped typing
+export type TypingNotify = (chatId: string, userId: number, isTyping: boolean) => void;
+
+interface TypingEntry {
+  chatId: string;
+  userId: number;
+  lastSentAt: number;
+  expiry: NodeJS.Timeout;
+}
+
+// Who is typing where, keyed by "<chatId>:<userId>"
+const typing = new Map<string, TypingEntry>();
+
+function typingKey(chatId: string, userId: number) {
+  return `${chatId}:${userId}`;
+}
+
+export function startTyping(chatId: string, userId: number, notify: TypingNotify) {
+  const key = typingKey(chatId, userId);
+  const entry = typing.get(key);
+  const now = Date.now();
+
+  if (entry) {
+    clearTimeout(entry.expiry);
+  }
+
+  const expiry = setTimeout(() => stopTyping(chatId, userId, notify), TYPING_EXPIRY_MS);
+  expiry.unref();
+
+  if (entry && now - entry.lastSentAt < TYPING_THROTTLE_MS) {
+    entry.expiry = expiry;
+    return;
+  }
+
+  typing.set(key, { chatId, userId, lastSentAt: now, expiry });
+  notify(chatId, userId, true);
+}
+
+export function stopTyping(chatId: string, userId: number, notify: TypingNotify) {
+  const key = typingKey(chatId, userId);
+  const entry = typing.get(key);
+  if (!entry) return;
+
+  clearTimeout(entry.expiry);
+  typing.delete(key);
+  notify(chatId, userId, false);
+}
+
+// Clear every indicator of a user, e.g. when their last socket closes
+export function stopAllTyping(userId: number, notify: TypingNotify) {
+  Array.from(typing.values())
+    .filter(entry => entry.userId === userId)
+    .forEach(entry => stopTyping(entry.chatId, userId, notify));
+}
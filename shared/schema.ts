@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uniqueIndex, index, AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,8 +12,30 @@ export const users = pgTable("users", {
   profilePicture: text("profile_picture"),
   about: text("about").default("Available"),
   createdAt: timestamp("created_at").defaultNow(),
+  // When the user's last socket closed; null while never seen
+  lastSeenAt: timestamp("last_seen_at"),
 });
 
+// "@username" (or "@all" when userId is null) spelled by `length` characters of a message from `offset`
+export type MessageMention = { userId: number | null; offset: number; length: number };
+
+// Disappearing-message timers a chat can pick, in seconds
+export const DISAPPEARING_TIMERS = [
+  { seconds: 86400, label: "24 hours" },
+  { seconds: 604800, label: "7 days" },
+  { seconds: 7776000, label: "90 days" },
+] as const;
+
+// Content type of notices the server adds to a chat's timeline, such as timer changes
+export const SYSTEM_CONTENT_TYPE = "system";
+
+// Words of a message's content for full-text search. Punctuation turns into spaces first, so Postgres
+// finds the same words as server/search.ts instead of keeping emails, URLs and hyphenated words whole;
+// "simple" keeps words as typed, without stemming
+export function searchVector(content: AnyPgColumn): SQL {
+  return sql`to_tsvector('simple', regexp_replace(${content}, '[[:punct:]]+', ' ', 'g'))`;
+}
+
 // Chat messages table
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
@@ -23,7 +46,26 @@ export const messages = pgTable("messages", {
   timestamp: timestamp("timestamp").defaultNow(),
   isRead: boolean("is_read").default(false),
   isDeleted: boolean("is_deleted").default(false),
-});
+  // Id the sending client picked, so a retried send is stored only once
+  clientMessageId: text("client_message_id"),
+  // Set when the sender last changed the content; earlier versions are in message_revisions
+  editedAt: timestamp("edited_at"),
+  // The earlier message in the same chat this one quotes
+  replyToId: integer("reply_to_id"),
+  // How many times the content was forwarded on its way here; 0 for an original message
+  forwardCount: integer("forward_count").notNull().default(0),
+  // Who the message @mentions; found by the server when the message is sent or edited
+  mentions: jsonb("mentions").$type<MessageMention[]>().notNull().default([]),
+  // When a disappearing message is removed; set from the chat's timer when the message is stored
+  expiresAt: timestamp("expires_at"),
+}, (table) => [
+  // Timeline pages walk a chat in (timestamp, id) order
+  index("messages_chat_timestamp_id_idx").on(table.chatId, table.timestamp, table.id),
+  uniqueIndex("messages_sender_client_message_id_idx").on(table.senderId, table.clientMessageId),
+  // Full-text search over content
+  index("messages_content_search_idx").using("gin", searchVector(table.content)),
+  index("messages_expires_at_idx").on(table.expiresAt),
+]);
 
 // Chat groups table
 export const chatGroups = pgTable("chat_groups", {
@@ -72,17 +114,142 @@ export const conversations = pgTable("conversations", {
   lastMessageAt: timestamp("last_message_at").defaultNow(),
 });
 
+// Per-chat settings (keyed by chat id, covers DMs and groups)
+export const chatSettings = pgTable("chat_settings", {
+  id: serial("id").primaryKey(),
+  chatId: text("chat_id").notNull().unique(),
+  messageRetentionDays: integer("message_retention_days"),
+  // Disappearing-messages timer for new messages; null when off
+  disappearingSeconds: integer("disappearing_seconds"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Read watermark of one user in one chat: everything up to this message is read
+export const chatReads = pgTable("chat_reads", {
+  id: serial("id").primaryKey(),
+  chatId: text("chat_id").notNull(),
+  userId: integer("user_id").notNull(),
+  lastReadMessageId: integer("last_read_message_id").notNull(),
+  // Timestamp of that message, so the watermark compares in timeline order
+  lastReadTimestamp: timestamp("last_read_timestamp").notNull(),
+  readAt: timestamp("read_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("chat_reads_chat_user_idx").on(table.chatId, table.userId),
+]);
+
+// Delivery watermark of one user in one chat: a socket of theirs has received everything up to this message
+export const chatDeliveries = pgTable("chat_deliveries", {
+  id: serial("id").primaryKey(),
+  chatId: text("chat_id").notNull(),
+  userId: integer("user_id").notNull(),
+  lastDeliveredMessageId: integer("last_delivered_message_id").notNull(),
+  lastDeliveredTimestamp: timestamp("last_delivered_timestamp").notNull(),
+  deliveredAt: timestamp("delivered_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("chat_deliveries_chat_user_idx").on(table.chatId, table.userId),
+]);
+
+// Earlier versions of an edited message, one row per edit
+export const messageRevisions = pgTable("message_revisions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  content: text("content").notNull(),
+  // When this version was sent or last edited in
+  writtenAt: timestamp("written_at").notNull(),
+  // When the edit replaced it
+  replacedAt: timestamp("replaced_at").defaultNow(),
+}, (table) => [
+  index("message_revisions_message_id_idx").on(table.messageId),
+]);
+
+// Messages a user deleted for themselves only; everyone else still sees them
+export const hiddenMessages = pgTable("hidden_messages", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  messageId: integer("message_id").notNull(),
+  hiddenAt: timestamp("hidden_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("hidden_messages_user_message_idx").on(table.userId, table.messageId),
+]);
+
+// Emoji reactions: each user can react to a message once per emoji
+export const messageReactions = pgTable("message_reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  userId: integer("user_id").notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("message_reactions_message_user_emoji_idx").on(table.messageId, table.userId, table.emoji),
+]);
+
+// Messages a user starred; private to that user
+export const starredMessages = pgTable("starred_messages", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  messageId: integer("message_id").notNull(),
+  starredAt: timestamp("starred_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("starred_messages_user_message_idx").on(table.userId, table.messageId),
+]);
+
+// Messages pinned to the top of their chat for every member
+export const pinnedMessages = pgTable("pinned_messages", {
+  id: serial("id").primaryKey(),
+  chatId: text("chat_id").notNull(),
+  messageId: integer("message_id").notNull(),
+  pinnedBy: integer("pinned_by").notNull(),
+  pinnedAt: timestamp("pinned_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("pinned_messages_message_idx").on(table.messageId),
+  index("pinned_messages_chat_idx").on(table.chatId),
+]);
+
+// Messages an author queued to be sent at `sendAt`; removed once the scheduler sends them
+export const scheduledMessages = pgTable("scheduled_messages", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").notNull(),
+  chatId: text("chat_id").notNull(),
+  content: text("content").notNull(),
+  contentType: text("content_type").default("text"),
+  replyToId: integer("reply_to_id"),
+  sendAt: timestamp("send_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("scheduled_messages_send_at_idx").on(table.sendAt),
+  index("scheduled_messages_sender_idx").on(table.senderId),
+]);
+
+// What a user has typed but not sent in a chat; one draft per user and chat
+export const messageDrafts = pgTable("message_drafts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  chatId: text("chat_id").notNull(),
+  content: text("content").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("message_drafts_user_chat_idx").on(table.userId, table.chatId),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
+  lastSeenAt: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  mentions: z.array(z.object({
+    userId: z.number().int().nullable(),
+    offset: z.number().int().min(0),
+    length: z.number().int().min(1)
+  })).optional(),
+}).omit({
   id: true,
   timestamp: true,
   isRead: true,
   isDeleted: true,
+  editedAt: true,
 });
 
 export const insertChatGroupSchema = createInsertSchema(chatGroups).omit({
@@ -111,6 +278,18 @@ export const insertConversationSchema = createInsertSchema(conversations).omit({
   lastMessageAt: true,
 });
 
+export const insertChatSettingsSchema = createInsertSchema(chatSettings).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertScheduledMessageSchema = createInsertSchema(scheduledMessages, {
+  sendAt: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -132,3 +311,19 @@ export type InsertStatusView = z.infer<typeof insertStatusViewSchema>;
 
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
+
+export type ChatSettings = typeof chatSettings.$inferSelect;
+export type InsertChatSettings = z.infer<typeof insertChatSettingsSchema>;
+
+export type ChatRead = typeof chatReads.$inferSelect;
+export type ChatDelivery = typeof chatDeliveries.$inferSelect;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type HiddenMessage = typeof hiddenMessages.$inferSelect;
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type StarredMessage = typeof starredMessages.$inferSelect;
+export type PinnedMessage = typeof pinnedMessages.$inferSelect;
+
+export type ScheduledMessage = typeof scheduledMessages.$inferSelect;
+export type InsertScheduledMessage = z.infer<typeof insertScheduledMessageSchema>;
+
+export type MessageDraft = typeof messageDrafts.$inferSelect;